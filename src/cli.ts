@@ -4,59 +4,249 @@ import { PublicKey } from '@solana/web3.js'
 import chalk from 'chalk'
 import { Command } from 'commander'
 import { config as loadEnv } from 'dotenv'
+import { existsSync, readFileSync, writeFileSync } from 'fs'
 import ora from 'ora'
+import path from 'path'
 
 // Load environment variables
 loadEnv()
 
 // Import modules
 import { getConfig } from './config.js'
+import { clusterGuard } from './core/cluster.js'
 import { detector } from './core/detector.js'
 import { monitor } from './core/monitor.js'
+import { RECLAIM_LOCK, leases } from './core/lock.js'
+import { planner } from './core/planner.js'
 import { reclaimer } from './core/reclaimer.js'
+import type { OfflineReclaimFile, ReclaimPlanFile } from './core/types.js'
 import {
   addProtectedAccount,
   getAllTrackedAccounts,
   getProtectedAccounts,
+  getTrackedAccount,
   removeProtectedAccount,
 } from './db/accounts.js'
-import { closeDatabase, initDatabase } from './db/index.js'
+import { getAccountEvents } from './db/events.js'
+import { closeDatabase, getDatabase, initDatabase } from './db/index.js'
+import {
+  LATEST_SCHEMA_VERSION,
+  getMigrationStatus,
+  getSchemaVersion,
+  migrate,
+  rollback,
+} from './db/migrations.js'
+import { getJobs } from './db/jobs.js'
+import { hasPendingJournalEntries } from './db/journal.js'
+import { getLease, getLeases, releaseLease } from './db/locks.js'
+import {
+  getAllOperators,
+  getDefaultOperator,
+  getOperatorByName,
+  type Operator,
+} from './db/operators.js'
+import { getPlan, getPlanItems, getRecentPlans } from './db/plans.js'
+import { getSponsorCursor } from './db/sponsors.js'
+import { unlockKeystore } from './services/keystore.js'
+import { koraService } from './services/kora.js'
 import { reporter } from './services/reporter.js'
-import { formatSol, isValidPubkey, shortenPubkey } from './utils/helpers.js'
+import { RPC_METHOD_CLASSES } from './services/rateLimiter.js'
+import { rpcPool } from './services/rpcPool.js'
+import {
+  formatDuration,
+  formatSol,
+  isValidPubkey,
+  shortenPubkey,
+} from './utils/helpers.js'
 import { logger, setLogLevel } from './utils/logger.js'
 
 const program = new Command()
 
+// Commands that only read the database (or sign offline) skip the cluster
+// check and journal recovery
+const OFFLINE_COMMANDS = new Set([
+  'config',
+  'doctor',
+  'inspect',
+  'jobs',
+  'keys',
+  'list',
+  'lock',
+  'operator',
+  'plans',
+  'protect',
+  'report',
+  'sign',
+  'signer',
+])
+
+// Set by long-running commands that must finish work before exiting
+let shutdownHandler: (() => Promise<void>) | undefined
+
+/**
+ * Resolve an --operator name, falling back to the default operator
+ */
+function resolveOperator(name?: string): Operator | undefined {
+  if (!name) return getDefaultOperator()
+
+  const operator = getOperatorByName(name)
+  if (!operator) {
+    throw new Error(`Operator not found: ${name}`)
+  }
+  return operator
+}
+
+/**
+ * Unlock the keystore if the operator signer or any operator uses it
+ */
+async function unlockOperatorKeys(extraSpecs: string[] = []): Promise<void> {
+  const config = getConfig()
+  await unlockKeystore([
+    config.operatorSigner || config.operatorKeypairPath,
+    ...getAllOperators().map((op) => op.keypair_path),
+    ...extraSpecs,
+  ])
+}
+
 program
   .name('vacuum')
   .description('🧹 Vacuum - Suck up forgotten rent from Solana accounts')
   .version('1.0.0')
   .option('-v, --verbose', 'Enable verbose logging')
-  .hook('preAction', (thisCommand) => {
-    if (thisCommand.opts().verbose) {
+  .option(
+    '--cluster <name>',
+    'Cluster you expect to be on; mainnet-beta is required to close accounts on mainnet',
+  )
+  .hook('preAction', async (thisCommand, actionCommand) => {
+    const { verbose, cluster } = thisCommand.opts()
+    if (verbose) {
       setLogLevel('debug')
     }
+    // vacuum db manages the schema itself, so open the database as is
+    if (actionCommand.name() === 'db') {
+      initDatabase({ migrate: false })
+      return
+    }
+
     // Initialize database before any command
-    initDatabase()
+    try {
+      initDatabase()
+    } catch (error) {
+      logger.error(String(error))
+      process.exit(1)
+    }
+
+    if (cluster) {
+      clusterGuard.acknowledge(cluster)
+    }
+    // Offline commands never touch the chain, so they leave the cluster
+    // check and journal recovery to the next online command
+    if (OFFLINE_COMMANDS.has(actionCommand.name())) return
+
+    // Refuse to touch the chain from a database populated on another cluster
+    try {
+      await clusterGuard.verify()
+    } catch (error) {
+      logger.error(String(error))
+      process.exit(1)
+    }
+
+    // Resolve closes left in flight by a crashed run
+    if (hasPendingJournalEntries()) {
+      try {
+        await reclaimer.recoverPendingReclaims()
+      } catch (error) {
+        logger.warn(`Could not resolve pending reclaims: ${String(error)}`)
+      }
+    }
   })
 
 // ==================== SCAN COMMAND ====================
 program
   .command('scan')
   .description('Scan for sponsored accounts to track')
-  .option('--operator', 'Scan all token accounts owned by operator')
+  .option(
+    '--operator <name>',
+    'Operator to scan for (default operator if omitted)',
+  )
   .option('--tx <signatures...>', 'Scan specific transaction signatures')
+  .option(
+    '--sponsor <feePayer>',
+    "Scan a fee payer's transaction history for accounts it created",
+  )
+  .option(
+    '--from <signature>',
+    'With --sponsor: walk back from this signature instead of the latest',
+  )
+  .option(
+    '--backfill',
+    'With --sponsor: continue into history older than previous scans',
+  )
+  .option(
+    '--kora',
+    'Scan the history of every fee payer the Kora node (KORA_NODE_URL) uses',
+  )
+  .option(
+    '--limit <number>',
+    'With --sponsor or --kora: transactions per run',
+    '1000',
+  )
   .action(async (options) => {
+    try {
+      await unlockOperatorKeys()
+    } catch (error) {
+      logger.error(String(error))
+      process.exit(1)
+    }
+
     const spinner = ora('Scanning for accounts...').start()
 
     try {
+      const operatorId = resolveOperator(options.operator)?.id
       let accounts
 
-      if (options.tx) {
-        accounts = await monitor.scanFromSignatures(options.tx)
+      if (options.sponsor) {
+        if (!isValidPubkey(options.sponsor)) {
+          throw new Error(`Invalid sponsor address: ${options.sponsor}`)
+        }
+        const sponsor = new PublicKey(options.sponsor)
+
+        let fromSignature = options.from
+        if (options.backfill) {
+          const cursor = getSponsorCursor(sponsor)
+          if (cursor?.history_complete) {
+            spinner.succeed('Sponsor history already fully scanned')
+            return
+          }
+          if (!cursor?.oldest_signature) {
+            throw new Error(
+              'Nothing to backfill yet: run a plain --sponsor scan first',
+            )
+          }
+          fromSignature = cursor.oldest_signature
+        }
+
+        accounts = await monitor.scanSponsor(sponsor, {
+          operatorId,
+          fromSignature,
+          limit: parseInt(options.limit, 10),
+        })
+      } else if (options.kora) {
+        accounts = await monitor.scanKoraSponsors({
+          operatorId,
+          limit: parseInt(options.limit, 10),
+        })
+      } else if (options.tx) {
+        const result = await monitor.scanFromSignatures(options.tx, {
+          operatorId,
+        })
+        for (const { signature, error } of result.failed) {
+          logger.warn(`Could not load ${signature}: ${error}`)
+        }
+        accounts = result.tracked
       } else {
         // Default: scan operator's token accounts
-        accounts = await monitor.scanOperatorAccounts()
+        accounts = await monitor.scanOperatorAccounts({ operatorId })
       }
 
       spinner.succeed(`Found ${accounts.length} accounts`)
@@ -79,6 +269,7 @@ program
   .description('Check for reclaimable accounts')
   .option('-a, --address <pubkey>', 'Check a specific account')
   .option('--all', 'Check all tracked accounts')
+  .option('--operator <name>', "Only check this operator's accounts")
   .action(async (options) => {
     const spinner = ora('Checking accounts...').start()
 
@@ -101,17 +292,25 @@ program
           logger.info(
             `  Safe: ${result.safe ? 'Yes' : 'No - Manual review needed'}`,
           )
+          if (result.cooldownEndsAt) {
+            logger.info(
+              `  Cooldown: ${formatDuration(result.cooldownEndsAt.getTime() - Date.now())} remaining`,
+            )
+          }
           logger.info(`  Details: ${result.details}`)
         } else {
           logger.info(`Account ${shortenPubkey(pubkey)} is not reclaimable.`)
         }
       } else {
         // Check all accounts
-        const results = await detector.findAllReclaimable()
+        const operator = options.operator
+          ? resolveOperator(options.operator)
+          : undefined
+        const results = await detector.findAllReclaimable(operator?.id)
         spinner.succeed(`Found ${results.length} reclaimable accounts`)
 
         if (results.length > 0) {
-          const summary = await detector.getReclaimableSummary()
+          const summary = await detector.getReclaimableSummary(results)
           logger.newline()
           logger.info(`📊 Reclaimable Summary:`)
           logger.info(`  - Safe to reclaim: ${summary.safeToReclaim} accounts`)
@@ -131,9 +330,12 @@ program
             const safeTag = result.safe
               ? chalk.green('[SAFE]')
               : chalk.yellow('[REVIEW]')
+            const cooldownTag = result.cooldownEndsAt
+              ? ` | ${chalk.cyan(`cooldown ${formatDuration(result.cooldownEndsAt.getTime() - Date.now())}`)}`
+              : ''
             logger.info(
               `${safeTag} ${result.account.pubkey.toBase58().slice(0, 20)}... | ` +
-                `${formatSol(result.reclaimableLamports)} | ${result.reason}`,
+                `${formatSol(result.reclaimableLamports)} | ${result.reason}${cooldownTag}`,
             )
           }
         }
@@ -152,15 +354,40 @@ program
   .option('-n, --dry-run', 'Preview reclaim without executing')
   .option('-m, --max <number>', 'Maximum accounts to reclaim', '10')
   .option('-y, --yes', 'Skip confirmation prompt')
+  .option(
+    '--operator <name>',
+    "Only reclaim this operator's accounts (default operator for untagged accounts)",
+  )
+  .option(
+    '--export-unsigned <file>',
+    'Write unsigned transactions for offline signing instead of sending',
+  )
+  .option(
+    '--nonce <accounts...>',
+    'Durable nonce accounts for --export-unsigned (one per transaction)',
+  )
   .action(async (options) => {
     const dryRun = options.dryRun !== undefined ? true : getConfig().dryRun
     const maxAccounts = parseInt(options.max, 10)
 
+    try {
+      // Offline exports never touch the operator key
+      if (!options.exportUnsigned) {
+        await unlockOperatorKeys()
+      }
+    } catch (error) {
+      logger.error(String(error))
+      process.exit(1)
+    }
+
     const spinner = ora('Finding reclaimable accounts...').start()
 
     try {
       // Find safe reclaimable accounts
-      const results = await detector.findSafeReclaimable()
+      const operator = resolveOperator(options.operator)
+      const results = await detector.findSafeReclaimable(
+        options.operator ? operator?.id : undefined,
+      )
       spinner.stop()
 
       if (results.length === 0) {
@@ -187,6 +414,40 @@ program
       logger.info(`Total to reclaim: ${preview.totalSol}`)
       logger.newline()
 
+      if (options.exportUnsigned) {
+        if (!options.nonce) {
+          logger.error('--export-unsigned requires --nonce <accounts...>')
+          process.exit(1)
+        }
+
+        const { offlineReclaimer } = await import('./core/offline.js')
+        const { file, skipped } = await offlineReclaimer.exportUnsigned(
+          toReclaim,
+          options.nonce.map((nonce: string) => new PublicKey(nonce)),
+          { maxAccounts, operatorId: operator?.id },
+        )
+        writeFileSync(
+          path.resolve(options.exportUnsigned),
+          JSON.stringify(file, null, 2),
+        )
+
+        for (const entry of file.transactions) {
+          logger.info(`  ${entry.summary}`)
+        }
+        for (const result of skipped) {
+          logger.warn(
+            `  Skipped ${shortenPubkey(result.accountPubkey)}: ${result.error}`,
+          )
+        }
+        logger.success(
+          `Wrote ${file.transactions.length} unsigned transactions (${file.totalSol}) to ${options.exportUnsigned}`,
+        )
+        logger.info(
+          `Sign offline with: vacuum sign ${options.exportUnsigned} -o signed.json`,
+        )
+        return
+      }
+
       if (!options.yes && !dryRun) {
         // In a real CLI, we'd prompt for confirmation here
         logger.warn('Use --yes to skip confirmation, or --dry-run to preview')
@@ -197,6 +458,7 @@ program
       const reclaimResults = await reclaimer.batchReclaim(toReclaim, {
         dryRun,
         maxAccounts,
+        operatorId: operator?.id,
       })
 
       const successful = reclaimResults.filter((r) => r.success)
@@ -205,11 +467,28 @@ program
         0,
       )
 
+      const blocked = reclaimResults.filter((r) => r.retryable === false)
+      if (blocked.length > 0) {
+        logger.newline()
+        logger.warn(`${blocked.length} accounts cannot be closed as-is:`)
+        for (const result of blocked) {
+          logger.warn(
+            `  ${shortenPubkey(result.accountPubkey)} | ${result.errorCode}`,
+          )
+        }
+      }
+
       logger.newline()
       if (dryRun) {
+        const planId = await planner.recordDryRun(
+          toReclaim,
+          reclaimResults,
+          operator?.id,
+        )
         logger.success(
           `[DRY RUN] Would reclaim ${formatSol(totalReclaimed)} from ${successful.length} accounts`,
         )
+        logger.info(`Stored as plan #${planId} (vacuum plans ${planId})`)
       } else {
         logger.success(
           `Reclaimed ${formatSol(totalReclaimed)} from ${successful.length} accounts`,
@@ -222,6 +501,243 @@ program
     }
   })
 
+// ==================== PLAN COMMAND ====================
+program
+  .command('plan')
+  .description('Write a reviewable reclaim plan for `vacuum apply`')
+  .requiredOption('-o, --output <file>', 'Where to write the plan')
+  .option('-m, --max <number>', 'Maximum accounts to plan', '10')
+  .option(
+    '--operator <name>',
+    "Only plan this operator's accounts (default operator for untagged accounts)",
+  )
+  .action(async (options) => {
+    const spinner = ora('Finding reclaimable accounts...').start()
+
+    try {
+      const operator = resolveOperator(options.operator)
+      const results = await detector.findSafeReclaimable(
+        options.operator ? operator?.id : undefined,
+      )
+      const toPlan = results.slice(0, parseInt(options.max, 10))
+
+      if (toPlan.length === 0) {
+        spinner.stop()
+        logger.info('No accounts ready for reclaim.')
+        return
+      }
+
+      spinner.text = 'Fingerprinting account state...'
+      const plan = await planner.createPlan(toPlan, {
+        operatorId: operator?.id,
+      })
+      spinner.stop()
+
+      writeFileSync(path.resolve(options.output), JSON.stringify(plan, null, 2))
+
+      logger.newline()
+      logger.info(`Plan #${plan.id}: ${plan.items.length} accounts`)
+      logger.divider()
+      for (const item of toPlan) {
+        logger.info(
+          `  ${item.account.pubkey.toBase58().slice(0, 16)}... | ${formatSol(item.reclaimableLamports)} | ${item.reason}`,
+        )
+      }
+      logger.divider()
+      logger.info(`Total to reclaim: ${plan.totalSol}`)
+      logger.newline()
+      logger.success(`Wrote plan to ${options.output}`)
+      logger.info(`Review it, then run: vacuum apply ${options.output} --yes`)
+    } catch (error) {
+      spinner.fail('Planning failed')
+      logger.error(String(error))
+      process.exit(1)
+    }
+  })
+
+// ==================== APPLY COMMAND ====================
+program
+  .command('apply <file>')
+  .description('Execute a reclaim plan, refusing accounts that changed')
+  .option('-y, --yes', 'Skip confirmation prompt')
+  .action(async (input, options) => {
+    try {
+      const plan = JSON.parse(
+        readFileSync(path.resolve(input), 'utf-8'),
+      ) as ReclaimPlanFile
+
+      logger.info(
+        `Plan #${plan.id} from ${plan.createdAt}: ${plan.items.length} accounts, ${plan.totalSol}`,
+      )
+
+      if (!options.yes) {
+        logger.warn('Use --yes to execute this plan')
+        return
+      }
+
+      await unlockOperatorKeys()
+      const results = await planner.applyPlan(plan)
+      const successful = results.filter((r) => r.success)
+      const totalReclaimed = successful.reduce(
+        (sum, r) => sum + r.amountReclaimed,
+        0,
+      )
+
+      logger.newline()
+      logger.success(
+        `Reclaimed ${formatSol(totalReclaimed)} from ${successful.length} accounts`,
+      )
+      if (successful.length < results.length) {
+        logger.warn(
+          `${results.length - successful.length} accounts were not reclaimed (vacuum plans ${plan.id})`,
+        )
+        process.exitCode = 1
+      }
+    } catch (error) {
+      logger.error(String(error))
+      process.exit(1)
+    }
+  })
+
+// ==================== PLANS COMMAND ====================
+program
+  .command('plans [id]')
+  .description('List stored plans, or compare one plan with what executed')
+  .option('-l, --limit <number>', 'Number of plans to list', '20')
+  .action((id, options) => {
+    try {
+      if (!id) {
+        const plans = getRecentPlans(parseInt(options.limit, 10))
+        if (plans.length === 0) {
+          logger.info('No plans stored.')
+          return
+        }
+
+        for (const plan of plans) {
+          const items = getPlanItems(plan.id)
+          logger.info(
+            `  #${plan.id} | ${plan.status.padEnd(7)} | ${plan.created_at} | ${items.length} accounts | ${formatSol(plan.total_lamports)}`,
+          )
+        }
+        return
+      }
+
+      const plan = getPlan(parseInt(id, 10))
+      if (!plan) {
+        throw new Error(`Plan not found: ${id}`)
+      }
+
+      logger.info(
+        `Plan #${plan.id} (${plan.status}), created ${plan.created_at}` +
+          (plan.applied_at ? `, applied ${plan.applied_at}` : ''),
+      )
+      logger.divider()
+
+      let planned = 0
+      let executed = 0
+      for (const item of getPlanItems(plan.id)) {
+        planned += item.lamports
+        executed += item.amount_reclaimed
+        logger.info(
+          `  ${shortenPubkey(item.account_pubkey)} | planned ${formatSol(item.lamports)} | ` +
+            `${item.outcome} ${formatSol(item.amount_reclaimed)}` +
+            (item.tx_signature ? ` | ${item.tx_signature}` : '') +
+            (item.error ? ` | ${item.error}` : ''),
+        )
+      }
+
+      logger.divider()
+      logger.info(`Planned:  ${formatSol(planned)}`)
+      logger.info(
+        `${plan.status === 'dry_run' ? 'Would reclaim' : 'Reclaimed'}: ${formatSol(executed)}`,
+      )
+    } catch (error) {
+      logger.error(String(error))
+      process.exit(1)
+    }
+  })
+
+// ==================== SIGN COMMAND ====================
+program
+  .command('sign <file>')
+  .description('Sign an exported reclaim file (works offline)')
+  .requiredOption('-o, --output <file>', 'Where to write the signed file')
+  .option(
+    '--signer <spec>',
+    'Signer spec: keypair path, env:NAME or keystore:<name>',
+  )
+  .action(async (input, options) => {
+    try {
+      const { offlineReclaimer } = await import('./core/offline.js')
+      const { getSigner } = await import('./services/signer.js')
+      const file = JSON.parse(
+        readFileSync(path.resolve(input), 'utf-8'),
+      ) as OfflineReclaimFile
+
+      logger.info(`Authority: ${file.authority}`)
+      logger.info(`Treasury:  ${file.treasury}`)
+      logger.divider()
+      for (const entry of file.transactions) {
+        logger.info(entry.summary)
+        for (const account of entry.accounts) {
+          logger.info(
+            `  ${account.pubkey} | ${account.amount} | ${account.reason}`,
+          )
+        }
+      }
+      logger.divider()
+      logger.info(`Total: ${file.totalSol}`)
+
+      await unlockOperatorKeys(options.signer ? [options.signer] : [])
+      const signed = await offlineReclaimer.signFile(
+        file,
+        await getSigner(options.signer),
+      )
+      writeFileSync(
+        path.resolve(options.output),
+        JSON.stringify(signed, null, 2),
+      )
+      logger.success(
+        `Signed ${signed.transactions.length} transactions to ${options.output}`,
+      )
+    } catch (error) {
+      logger.error(String(error))
+      process.exit(1)
+    }
+  })
+
+// ==================== BROADCAST COMMAND ====================
+program
+  .command('broadcast <file>')
+  .description('Verify and submit a signed reclaim file')
+  .action(async (input) => {
+    try {
+      const { offlineReclaimer } = await import('./core/offline.js')
+      const file = JSON.parse(
+        readFileSync(path.resolve(input), 'utf-8'),
+      ) as OfflineReclaimFile
+
+      const results = await offlineReclaimer.broadcast(file)
+      const successful = results.filter((r) => r.success)
+      const totalReclaimed = successful.reduce(
+        (sum, r) => sum + r.amountReclaimed,
+        0,
+      )
+
+      logger.newline()
+      logger.success(
+        `Reclaimed ${formatSol(totalReclaimed)} from ${successful.length} accounts`,
+      )
+      if (successful.length < results.length) {
+        logger.warn(`${results.length - successful.length} accounts failed`)
+        process.exitCode = 1
+      }
+    } catch (error) {
+      logger.error(String(error))
+      process.exit(1)
+    }
+  })
+
 // ==================== REPORT COMMAND ====================
 program
   .command('report')
@@ -261,14 +777,18 @@ program
           logger.error('Invalid public key')
           process.exit(1)
         }
-        addProtectedAccount(new PublicKey(options.add), options.reason)
+        addProtectedAccount(new PublicKey(options.add), options.reason, {
+          source: 'cli',
+        })
         logger.success(`Protected: ${options.add}`)
       } else if (options.remove) {
         if (!isValidPubkey(options.remove)) {
           logger.error('Invalid public key')
           process.exit(1)
         }
-        removeProtectedAccount(new PublicKey(options.remove))
+        removeProtectedAccount(new PublicKey(options.remove), {
+          source: 'cli',
+        })
         logger.success(`Removed protection: ${options.remove}`)
       } else if (options.list) {
         const protected_ = getProtectedAccounts()
@@ -301,11 +821,31 @@ program
       logger.info('⚙️ Current Configuration:')
       logger.divider()
       logger.info(`  RPC URL:        ${config.rpcUrl}`)
+      if (config.rpcUrls.length > 0) {
+        logger.info(`  RPC Failover:   ${config.rpcUrls.join(', ')}`)
+      }
+      logger.info(
+        `  RPC Rate Limit: ${RPC_METHOD_CLASSES.map((c) => {
+          const perSecond = config.rpcRateLimits[c] ?? config.rpcRateLimit
+          return `${c} ${perSecond > 0 ? `${perSecond}/s` : 'unlimited'}`
+        }).join(', ')}`,
+      )
       logger.info(`  Treasury:       ${config.treasuryAddress.toBase58()}`)
       logger.info(`  Keypair Path:   ${config.operatorKeypairPath}`)
+      logger.info(
+        `  Signer:         ${config.operatorSigner || 'keypair file'}`,
+      )
       logger.info(`  Dry Run:        ${config.dryRun}`)
       logger.info(`  Cooldown:       ${config.cooldownHours} hours`)
       logger.info(`  Min Inactive:   ${config.minInactiveDays} days`)
+      logger.info(`  Activity TTL:   ${config.activityRefreshHours} hours`)
+      logger.info(`  CU Limit:       ${config.computeUnitLimit || 'auto'}`)
+      logger.info(
+        `  Priority Fee:   ${config.priorityFee === 'dynamic' ? 'dynamic' : `${config.priorityFee} micro-lamports/CU`}`,
+      )
+      logger.info(
+        `  Max Fee Share:  ${(config.maxPriorityFeeShare * 100).toFixed(1)}% of rent`,
+      )
       logger.info(`  Database:       ${config.dbPath}`)
       logger.divider()
     } catch (error) {
@@ -314,6 +854,87 @@ program
     }
   })
 
+// ==================== DOCTOR COMMAND ====================
+program
+  .command('doctor')
+  .description('Check RPC endpoints, treasury, signer and Kora node')
+  .action(async () => {
+    const config = getConfig()
+    let failures = 0
+    const pass = (message: string) =>
+      logger.info(`  ${chalk.green('✔')} ${message}`)
+    const fail = (message: string) => {
+      failures++
+      logger.info(`  ${chalk.red('✖')} ${message}`)
+    }
+
+    logger.newline()
+    logger.info('🩺 RPC Endpoints:')
+    logger.divider()
+    const endpoints = await rpcPool.checkHealth()
+    // Pin sends now so the report shows where they would go
+    rpcPool.sendConnection()
+    for (const endpoint of rpcPool.getStatus()) {
+      const mark = endpoint.healthy ? chalk.green('✔') : chalk.yellow('!')
+      const detail =
+        endpoint.slot === null
+          ? chalk.red(endpoint.lastError ?? 'unreachable')
+          : `${endpoint.latencyMs}ms | slot ${endpoint.slot} (lag ${endpoint.slotLag}) | ` +
+            `errors ${Math.round(endpoint.errorRate * 100)}%` +
+            (endpoint.rateLimited > 0 ? ` | ${endpoint.rateLimited}x 429` : '')
+      logger.info(
+        `  ${mark} ${endpoint.url}${endpoint.pinned ? chalk.cyan(' [sends]') : ''} | ${detail}`,
+      )
+    }
+    if (!endpoints.some((endpoint) => endpoint.healthy)) {
+      fail('No healthy RPC endpoint')
+    }
+    try {
+      const binding = await clusterGuard.verify()
+      pass(`Cluster ${binding.cluster} (genesis ${binding.genesis_hash})`)
+    } catch (error) {
+      fail(error instanceof Error ? error.message : String(error))
+    }
+
+    logger.newline()
+    logger.info('🔑 Operator:')
+    logger.divider()
+    if (config.treasuryAddress.equals(PublicKey.default)) {
+      fail('TREASURY_ADDRESS is not set')
+    } else {
+      pass(`Treasury ${config.treasuryAddress.toBase58()}`)
+    }
+    try {
+      const { getSigner } = await import('./services/signer.js')
+      await unlockOperatorKeys()
+      const signer = await getSigner()
+      pass(`Signer ${signer.publicKey.toBase58()} (${signer.source})`)
+    } catch (error) {
+      fail(`Signer: ${error instanceof Error ? error.message : error}`)
+    }
+
+    if (config.koraNodeUrl) {
+      logger.newline()
+      logger.info('🛰️ Kora Node:')
+      logger.divider()
+      const status = await koraService.getNodeStatus()
+      if (status.healthy) {
+        pass(
+          `${status.url} (${status.latency}ms) | fee payer ${status.feePayer}`,
+        )
+      } else {
+        fail(`${status.url}: ${status.error}`)
+      }
+    }
+
+    logger.divider()
+    if (failures > 0) {
+      logger.error(`${failures} check(s) failed`)
+      process.exit(1)
+    }
+    logger.success('All checks passed')
+  })
+
 // ==================== TRACK COMMAND ====================
 program
   .command('track <pubkey>')
@@ -329,6 +950,7 @@ program
       const account = await monitor.trackAccount(
         new PublicKey(pubkey),
         options.tx,
+        { source: 'cli' },
       )
 
       if (account) {
@@ -391,13 +1013,83 @@ program
     }
   })
 
+// ==================== INSPECT COMMAND ====================
+program
+  .command('inspect <pubkey>')
+  .description('Show a tracked account and the timeline of its changes')
+  .option('-l, --limit <number>', 'Number of most recent events to show', '50')
+  .action((pubkey, options) => {
+    try {
+      if (!isValidPubkey(pubkey)) {
+        logger.error('Invalid public key')
+        process.exit(1)
+      }
+
+      const key = new PublicKey(pubkey)
+      const account = getTrackedAccount(key)
+      const events = getAccountEvents(key, parseInt(options.limit, 10))
+      if (!account && events.length === 0) {
+        throw new Error(`Account not tracked: ${pubkey}`)
+      }
+
+      logger.newline()
+      logger.info(chalk.bold(`🔎 ${pubkey}`))
+      logger.divider()
+      if (account) {
+        logger.info(`  Status: ${account.status}`)
+        logger.info(`  Type: ${account.accountType}`)
+        logger.info(`  Rent: ${formatSol(account.rentLamports)}`)
+        if (account.owner) logger.info(`  Owner: ${account.owner.toBase58()}`)
+        if (account.mint) logger.info(`  Mint: ${account.mint.toBase58()}`)
+        if (account.payer) logger.info(`  Payer: ${account.payer.toBase58()}`)
+        if (account.sponsorTx) logger.info(`  Sponsor TX: ${account.sponsorTx}`)
+        if (account.operatorId !== undefined) {
+          logger.info(`  Operator: ID ${account.operatorId}`)
+        }
+        logger.info(`  Created: ${account.createdAt.toISOString()}`)
+        logger.info(`  Last checked: ${account.lastCheckedAt.toISOString()}`)
+      } else {
+        logger.info('  Not tracked')
+      }
+
+      logger.newline()
+      logger.info(`Timeline (${events.length} events):`)
+      logger.divider()
+      if (events.length === 0) {
+        logger.info('  No changes recorded yet.')
+      }
+      for (const event of events) {
+        const value = (v?: string) =>
+          v === undefined
+            ? '(new)'
+            : event.kind === 'lamports'
+              ? formatSol(Number(v))
+              : v
+        logger.info(
+          `  ${event.createdAt.toISOString()} | ${event.kind} ${value(event.oldValue)} -> ${value(event.newValue)} | ` +
+            `${event.source}${event.actor ? ` by ${event.actor}` : ''}` +
+            (event.slot !== undefined ? ` | slot ${event.slot}` : '') +
+            (event.detail ? ` | ${event.detail}` : ''),
+        )
+      }
+
+      logger.newline()
+    } catch (error) {
+      logger.error(String(error))
+      process.exit(1)
+    }
+  })
+
 // ==================== OPERATOR COMMAND ====================
 program
   .command('operator')
   .description('Manage multiple operator accounts')
   .argument('<action>', 'Action: add, list, use, remove')
   .argument('[name]', 'Operator name')
-  .option('--keypair <path>', 'Path to keypair file')
+  .option(
+    '--keypair <spec>',
+    'Keypair file, keystore:<name>, env:NAME or signer URL',
+  )
   .option('--treasury <address>', 'Treasury address')
   .option('--default', 'Set as default operator')
   .action(async (action, name, options) => {
@@ -485,6 +1177,164 @@ program
     }
   })
 
+// ==================== KEYS COMMAND ====================
+program
+  .command('keys')
+  .description('Manage the encrypted operator keystore')
+  .argument('<action>', 'Action: import, export, list, rotate-passphrase')
+  .argument('[name]', 'Keystore entry name')
+  .option('--from <spec>', 'Key to import: keypair file or env:NAME')
+  .option('-o, --output <path>', 'File to export the plaintext keypair to')
+  .action(async (action, name, options) => {
+    try {
+      const keystore = await import('./services/keystore.js')
+      const { promptNewSecret, promptSecret } =
+        await import('./utils/prompt.js')
+      const { loadLocalKeypair } = await import('./services/signer.js')
+
+      // Passphrase from env, else asked for at the terminal
+      const getPassphrase = async (isNew = false) =>
+        keystore.getKeystorePassphrase() ??
+        (isNew
+          ? await promptNewSecret('New keystore passphrase: ')
+          : await promptSecret('Keystore passphrase: '))
+
+      if (action === 'list') {
+        const entries = keystore.listKeystoreEntries()
+        if (entries.length === 0) {
+          logger.info(`No keys in ${getConfig().keystoreDir}`)
+          logger.info(
+            'Import one with: vacuum keys import <name> --from <keypair.json>',
+          )
+          return
+        }
+
+        logger.newline()
+        logger.info(`🔐 Keystore (${entries.length}):`)
+        logger.divider()
+        for (const entry of entries) {
+          logger.info(`  ${entry.name}`)
+          logger.info(`    Address: ${entry.publicKey}`)
+          logger.info(`    Signer:  keystore:${entry.name}`)
+        }
+      } else if (action === 'import') {
+        if (!name || !options.from) {
+          logger.error('Usage: vacuum keys import <name> --from <spec>')
+          process.exit(1)
+        }
+
+        const keypair = loadLocalKeypair(options.from)
+        const isFirst = keystore.listKeystoreEntries().length === 0
+        const entry = keystore.importKeystoreEntry(
+          name,
+          keypair,
+          await getPassphrase(isFirst),
+        )
+        logger.success(`Imported ${entry.publicKey} as keystore:${entry.name}`)
+        logger.info(
+          'Delete the plaintext source once you have checked the entry works.',
+        )
+      } else if (action === 'export') {
+        if (!name || !options.output) {
+          logger.error('Usage: vacuum keys export <name> --output <path>')
+          process.exit(1)
+        }
+
+        const outputPath = path.resolve(options.output)
+        if (existsSync(outputPath)) {
+          logger.error(`Refusing to overwrite ${outputPath}`)
+          process.exit(1)
+        }
+
+        keystore.setKeystorePassphrase(await getPassphrase())
+        const keypair = keystore.loadKeystoreKeypair(name)
+        writeFileSync(
+          outputPath,
+          JSON.stringify(Array.from(keypair.secretKey)),
+          {
+            mode: 0o600,
+          },
+        )
+        logger.warn(`Wrote plaintext keypair to ${outputPath}`)
+      } else if (action === 'rotate-passphrase') {
+        const oldPassphrase = await getPassphrase()
+        const newPassphrase =
+          process.env.KEYSTORE_NEW_PASSPHRASE ??
+          (await promptNewSecret('New keystore passphrase: '))
+
+        const entries = keystore.rotateKeystorePassphrase(
+          oldPassphrase,
+          newPassphrase,
+        )
+        logger.success(`Re-encrypted ${entries.length} keystore entries`)
+        logger.info('Update KEYSTORE_PASSPHRASE wherever it is set.')
+      } else {
+        logger.error(`Unknown action: ${action}`)
+        logger.info(
+          'Available actions: import, export, list, rotate-passphrase',
+        )
+        process.exit(1)
+      }
+    } catch (error) {
+      logger.error(String(error))
+      process.exit(1)
+    }
+  })
+
+// ==================== SIGNER COMMAND ====================
+program
+  .command('signer')
+  .description('Inspect the operator signer or run a local signing service')
+  .argument('<action>', 'Action: show, serve')
+  .option(
+    '--signer <spec>',
+    'Signer spec: keypair path, env:NAME, keystore:<path> or signer URL',
+  )
+  .option('-p, --port <port>', 'Port for the signing service', '8899')
+  .option(
+    '--host <host>',
+    'Address for the signing service (non-loopback requires a token)',
+    '127.0.0.1',
+  )
+  .option('--token <token>', 'Bearer token required by the signing service')
+  .action(async (action, options) => {
+    try {
+      const { getSigner, isRemoteSignerSpec, loadLocalKeypair } =
+        await import('./services/signer.js')
+
+      await unlockOperatorKeys(options.signer ? [options.signer] : [])
+
+      if (action === 'show') {
+        const signer = await getSigner(options.signer)
+        logger.info(`Address: ${signer.publicKey.toBase58()}`)
+        logger.info(`Source:  ${signer.source}`)
+      } else if (action === 'serve') {
+        const config = getConfig()
+        const spec =
+          options.signer || config.operatorSigner || config.operatorKeypairPath
+        if (isRemoteSignerSpec(spec)) {
+          logger.error('The signing service needs a local key to sign with')
+          process.exit(1)
+        }
+
+        const { startSigningServer } = await import('./server/signer.js')
+        startSigningServer(
+          loadLocalKeypair(spec),
+          parseInt(options.port, 10),
+          options.token ?? config.remoteSignerToken,
+          options.host,
+        )
+      } else {
+        logger.error(`Unknown action: ${action}`)
+        logger.info('Available actions: show, serve')
+        process.exit(1)
+      }
+    } catch (error) {
+      logger.error(String(error))
+      process.exit(1)
+    }
+  })
+
 // ==================== DASHBOARD COMMAND ====================
 program
   .command('dashboard')
@@ -492,6 +1342,7 @@ program
   .option('-p, --port <port>', 'Port to run on', '3333')
   .action(async (options) => {
     try {
+      await unlockOperatorKeys()
       process.env.DASHBOARD_PORT = options.port
       const { startDashboardServer } = await import('./server/index.js')
       startDashboardServer()
@@ -529,6 +1380,7 @@ program
     }
 
     try {
+      await unlockOperatorKeys()
       const { startBot } = await import('./services/telegram.js')
       logger.info('🤖 Starting Telegram bot...')
       if (chatId) {
@@ -543,15 +1395,290 @@ program
     }
   })
 
+// ==================== DAEMON COMMAND ====================
+program
+  .command('daemon')
+  .description('Run scheduled scan, check and reclaim jobs in one process')
+  .option('--scan <cron>', 'Scan schedule (or set SCAN_SCHEDULE; "" disables)')
+  .option(
+    '--check <cron>',
+    'Check schedule (or set CHECK_SCHEDULE; "" disables)',
+  )
+  .option(
+    '--reclaim <cron>',
+    'Reclaim schedule (or set RECLAIM_SCHEDULE; "" disables)',
+  )
+  .option('-m, --max <number>', 'Maximum accounts per reclaim run', '10')
+  .option('--no-bot', 'Do not start the Telegram bot')
+  .option('--no-dashboard', 'Do not start the dashboard')
+  .option('-p, --port <port>', 'Dashboard port', '3333')
+  .option('-w, --watch', 'Also follow accounts live over WebSocket')
+  .action(async (options) => {
+    try {
+      await unlockOperatorKeys()
+      const { startDaemon } = await import('./daemon.js')
+
+      const botToken = options.bot ? process.env.TELEGRAM_BOT_TOKEN : undefined
+      const daemon = await startDaemon({
+        scanSchedule: options.scan,
+        checkSchedule: options.check,
+        reclaimSchedule: options.reclaim,
+        maxAccounts: parseInt(options.max, 10),
+        botToken,
+        botChatId: process.env.TELEGRAM_CHAT_ID,
+        dashboardPort: options.dashboard
+          ? parseInt(options.port, 10)
+          : undefined,
+        watch: options.watch,
+      })
+      shutdownHandler = () => daemon.stop()
+
+      logger.success('Daemon running. Press Ctrl+C to stop.')
+    } catch (error) {
+      logger.error('Failed to start daemon:', String(error))
+      process.exit(1)
+    }
+  })
+
+// ==================== WATCH COMMAND ====================
+program
+  .command('watch')
+  .description('Follow tracked accounts live over WebSocket subscriptions')
+  .option('--operator <name>', 'Only watch this operator')
+  .option('--resync <minutes>', 'Minutes between full resyncs', '30')
+  .action(async (options) => {
+    try {
+      await unlockOperatorKeys()
+      const { watcher } = await import('./core/watcher.js')
+
+      await watcher.start({
+        operatorId: options.operator
+          ? resolveOperator(options.operator)?.id
+          : undefined,
+        resyncMinutes: parseFloat(options.resync),
+      })
+      shutdownHandler = () => watcher.stop()
+
+      logger.success('Watching for account changes. Press Ctrl+C to stop.')
+    } catch (error) {
+      logger.error('Failed to start watch:', String(error))
+      process.exit(1)
+    }
+  })
+
+// ==================== JOBS COMMAND ====================
+program
+  .command('jobs')
+  .description('Show daemon job schedules and last runs')
+  .action(() => {
+    const jobs = getJobs()
+    if (jobs.length === 0) {
+      logger.info('No jobs yet. Start them with: vacuum daemon')
+      return
+    }
+
+    for (const job of jobs) {
+      const status =
+        job.last_status === 'failed'
+          ? chalk.red('failed')
+          : job.last_status
+            ? chalk.green(job.last_status)
+            : chalk.gray('never run')
+      logger.info(`${chalk.bold(job.name)} (${job.schedule}) | ${status}`)
+      if (job.last_run_at) {
+        logger.info(
+          `  Last run: ${new Date(job.last_run_at).toLocaleString()} (${formatDuration(job.last_duration_ms ?? 0)}) | ${job.last_result}`,
+        )
+      }
+      if (job.next_run_at) {
+        logger.info(`  Next run: ${new Date(job.next_run_at).toLocaleString()}`)
+      }
+      logger.info(`  Runs: ${job.run_count}`)
+    }
+  })
+
+// ==================== KORA COMMAND ====================
+program
+  .command('kora')
+  .description('Show the Kora node status, fee payers and supported tokens')
+  .action(async () => {
+    const spinner = ora('Querying Kora node...').start()
+
+    try {
+      const status = await koraService.getNodeStatus()
+      if (!status.healthy) {
+        throw new Error(status.error ?? 'Kora node is unhealthy')
+      }
+      spinner.succeed(`Kora node at ${status.url} (${status.latency}ms)`)
+
+      const koraConfig = await koraService.getConfig()
+      const feePayers = await koraService.getFeePayers()
+      const rules = koraConfig.validation_config
+
+      logger.info(`Slot: ${status.slot ?? 'unknown'}`)
+      logger.info(`Fee payers (${feePayers.length}):`)
+      for (const feePayer of feePayers) {
+        logger.info(`  ${feePayer.toBase58()}`)
+      }
+      logger.info(`Payment address: ${status.paymentAddress}`)
+      logger.info(
+        `Supported tokens: ${status.supportedTokens?.length ? status.supportedTokens.join(', ') : 'none'}`,
+      )
+      if (rules.max_allowed_lamports !== undefined) {
+        logger.info(
+          `Max lamports per transaction: ${formatSol(rules.max_allowed_lamports)}`,
+        )
+      }
+      if (rules.allowed_programs) {
+        logger.info(`Allowed programs: ${rules.allowed_programs.length}`)
+      }
+      logger.info('\nScan what they sponsored with: vacuum scan --kora')
+    } catch (error) {
+      spinner.fail('Kora query failed')
+      logger.error(String(error))
+      process.exit(1)
+    }
+  })
+
+// ==================== LOCK COMMAND ====================
+program
+  .command('lock')
+  .description('Show or clear the leases that serialize reclaim runs')
+  .argument('<action>', 'status or release')
+  .argument('[name]', 'Lock name', RECLAIM_LOCK)
+  .option('-f, --force', 'Release even if the holder looks alive')
+  .action((action, name, options) => {
+    try {
+      if (action === 'status') {
+        const locks = getLeases()
+        if (locks.length === 0) {
+          logger.info('No locks held.')
+          return
+        }
+
+        for (const lock of locks) {
+          const expired = new Date(lock.expires_at) <= new Date()
+          const state = expired
+            ? chalk.yellow('expired')
+            : leases.isAbandoned(lock)
+              ? chalk.yellow('holder exited')
+              : chalk.green('held')
+          logger.info(
+            `${chalk.bold(lock.name)} | ${state} | ${lock.holder} | ${lock.purpose ?? ''}`,
+          )
+          logger.info(
+            `  Acquired ${lock.acquired_at}, heartbeat ${lock.heartbeat_at}, expires ${lock.expires_at}`,
+          )
+        }
+      } else if (action === 'release') {
+        const lock = getLease(name)
+        if (!lock) {
+          logger.info(`Lock ${name} is not held.`)
+          return
+        }
+
+        const stale =
+          new Date(lock.expires_at) <= new Date() || leases.isAbandoned(lock)
+        if (!stale && !options.force) {
+          throw new Error(
+            `Lock ${name} is held by ${lock.holder}, which looks alive. ` +
+              'Releasing it lets two runs close accounts at once; use --force if you are sure.',
+          )
+        }
+
+        releaseLease(name)
+        logger.success(`Released lock ${name} (was held by ${lock.holder})`)
+      } else {
+        throw new Error(`Unknown action: ${action} (use status or release)`)
+      }
+    } catch (error) {
+      logger.error(String(error))
+      process.exit(1)
+    }
+  })
+
+program
+  .command('db')
+  .description('Show, apply or roll back database schema migrations')
+  .argument('<action>', 'status, migrate or rollback')
+  .option(
+    '--to <version>',
+    'Target schema version (default: latest for migrate, previous for rollback)',
+  )
+  .action((action, options) => {
+    try {
+      const db = getDatabase()
+      const version = getSchemaVersion(db)
+      const target =
+        options.to === undefined ? undefined : parseInt(options.to, 10)
+
+      if (action === 'status') {
+        logger.info(chalk.bold('Database Schema'))
+        logger.info(`  Path: ${path.resolve(getConfig().dbPath)}`)
+        logger.info(`  Version: ${version} (latest ${LATEST_SCHEMA_VERSION})`)
+        for (const migration of getMigrationStatus(db)) {
+          const state = migration.applied
+            ? chalk.green('applied')
+            : chalk.yellow('pending')
+          const note = migration.reversible ? '' : chalk.gray(' (irreversible)')
+          logger.info(
+            `  ${migration.version}. ${migration.name} | ${state}${note}`,
+          )
+        }
+        if (version > LATEST_SCHEMA_VERSION) {
+          logger.warn(
+            'This database was migrated by a newer release of vacuum; upgrade before using it.',
+          )
+        }
+      } else if (action === 'migrate') {
+        const applied = migrate(db, target)
+        if (applied.length === 0) {
+          logger.info(`Schema is up to date at version ${version}.`)
+          return
+        }
+        for (const migration of applied) {
+          logger.success(`Applied ${migration.version}. ${migration.name}`)
+        }
+      } else if (action === 'rollback') {
+        const undone = rollback(db, target ?? version - 1)
+        for (const migration of undone) {
+          logger.success(`Rolled back ${migration.version}. ${migration.name}`)
+        }
+        logger.warn(
+          'Commands migrate the database forward again when they start; use vacuum db to inspect it in the meantime.',
+        )
+      } else {
+        throw new Error(
+          `Unknown action: ${action} (use status, migrate or rollback)`,
+        )
+      }
+    } catch (error) {
+      logger.error(String(error))
+      process.exit(1)
+    }
+  })
+
 // Handle cleanup on exit
 process.on('exit', () => {
   closeDatabase()
 })
 
-process.on('SIGINT', () => {
+async function shutdown(): Promise<void> {
+  const handler = shutdownHandler
+  shutdownHandler = undefined
+  if (handler) {
+    try {
+      await handler()
+    } catch (error) {
+      logger.error('Error during shutdown:', String(error))
+    }
+  }
   closeDatabase()
   process.exit(0)
-})
+}
+
+process.on('SIGINT', shutdown)
+process.on('SIGTERM', shutdown)
 
 // Parse and run
-program.parse()
+await program.parseAsync()
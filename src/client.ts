@@ -1,15 +1,18 @@
 import { Keypair, PublicKey } from '@solana/web3.js'
 import { setConfig } from './config.js'
+import { clusterGuard } from './core/cluster.js'
 import { detector } from './core/detector.js'
 import { monitor } from './core/monitor.js'
 import { reclaimer } from './core/reclaimer.js'
 import type {
   DetectionResult,
+  EventOrigin,
   ReclaimOptions,
   ReclaimResult,
   TrackedAccount,
 } from './core/types.js'
 import { initDatabase } from './db/index.js'
+import { KeypairSigner, Signer, setSigner } from './services/signer.js'
 import { setLogLevel } from './utils/logger.js'
 
 export interface VacuumConfig {
@@ -17,11 +20,16 @@ export interface VacuumConfig {
   treasury: string
   keypairPath?: string
   keypair?: Keypair
+  signer?: Signer // e.g. a RemoteSigner; takes precedence over keypair
   dryRun?: boolean
   logLevel?: 'debug' | 'info' | 'warn' | 'error' | 'silent'
   dbPath?: string
+  cluster?: string // expected cluster; 'mainnet-beta' is required to reclaim on mainnet
 }
 
+// Account changes made through the SDK
+const API_ORIGIN: EventOrigin = { source: 'api' }
+
 export class VacuumClient {
   constructor(config: VacuumConfig) {
     // initialize logging
@@ -41,16 +49,25 @@ export class VacuumClient {
     // Update global config singleton
     setConfig(internalConfig)
 
+    if (config.signer) {
+      setSigner(config.signer)
+    } else if (config.keypair) {
+      setSigner(new KeypairSigner(config.keypair, 'client keypair'))
+    }
+
     // Initialize DB if not already done
     initDatabase()
+
+    if (config.cluster) clusterGuard.acknowledge(config.cluster)
   }
 
   /**
    * Scan for accounts owned by the configured operator
    */
   async scan(): Promise<TrackedAccount[]> {
+    await clusterGuard.verify()
     // Scan operator accounts
-    return monitor.scanOperatorAccounts()
+    return monitor.scanOperatorAccounts({ origin: API_ORIGIN })
   }
 
   /**
@@ -59,15 +76,11 @@ export class VacuumClient {
    * Otherwise checks all tracked accounts in DB.
    */
   async check(accounts?: TrackedAccount[]): Promise<DetectionResult[]> {
+    await clusterGuard.verify()
     if (accounts) {
-      const results: DetectionResult[] = []
-      for (const account of accounts) {
-        const result = await detector.checkAccount(account.pubkey)
-        if (result) results.push(result)
-      }
-      return results
+      return detector.checkAccounts(accounts, API_ORIGIN)
     }
-    return detector.findAllReclaimable()
+    return detector.findAllReclaimable(undefined, API_ORIGIN)
   }
 
   /**
@@ -77,7 +90,10 @@ export class VacuumClient {
     reclaimables: DetectionResult[],
     options?: ReclaimOptions,
   ): Promise<ReclaimResult[]> {
-    return reclaimer.batchReclaim(reclaimables, options)
+    return reclaimer.batchReclaim(reclaimables, {
+      origin: API_ORIGIN,
+      ...options,
+    })
   }
 
   /**
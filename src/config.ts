@@ -9,10 +9,18 @@ loadEnv()
 export interface Config {
   // Solana RPC
   rpcUrl: string
+  rpcUrls: string[] // failover endpoints, tried after rpcUrl
+  wsUrl?: string // WebSocket endpoint for watch mode; derived from rpcUrl if unset
+  rpcRateLimit: number // requests per second per endpoint and method class; 0 = unlimited
+  rpcRateLimits: Record<string, number> // per method class overrides
 
   // Operator settings
   treasuryAddress: PublicKey
   operatorKeypairPath: string
+  operatorSigner?: string // signer spec; overrides operatorKeypairPath
+  keystoreDir: string
+  keystorePassphrase?: string
+  remoteSignerToken?: string
 
   // Kora integration
   koraNodeUrl?: string
@@ -21,6 +29,17 @@ export interface Config {
   dryRun: boolean
   cooldownHours: number
   minInactiveDays: number
+  activityRefreshHours: number
+
+  // Transaction fees
+  computeUnitLimit: number // 0 = estimate from instruction count
+  priorityFee: number | 'dynamic' // micro-lamports per compute unit
+  maxPriorityFeeShare: number // max fraction of recovered rent spent on priority fees
+
+  // Daemon schedules (cron expressions; empty disables the job)
+  scanSchedule: string
+  checkSchedule: string
+  reclaimSchedule: string
 
   // Database
   dbPath: string
@@ -39,6 +58,27 @@ function getEnv(key: string, defaultValue?: string): string {
   return value
 }
 
+// Priority fee is either a fixed micro-lamport price or 'dynamic'
+function parsePriorityFee(value: string): number | 'dynamic' {
+  if (value.toLowerCase() === 'dynamic') {
+    return 'dynamic'
+  }
+  const microLamports = parseInt(value, 10)
+  return Number.isNaN(microLamports) ? 0 : microLamports
+}
+
+// Per-class limits look like "send=2,history=5"
+function parseRateLimits(value: string): Record<string, number> {
+  const limits: Record<string, number> = {}
+  for (const entry of value.split(',')) {
+    const [methodClass, perSecond] = entry.split('=').map((s) => s.trim())
+    if (methodClass && perSecond && !Number.isNaN(parseFloat(perSecond))) {
+      limits[methodClass] = parseFloat(perSecond)
+    }
+  }
+  return limits
+}
+
 export function loadConfig(): Config {
   const treasuryAddressStr = process.env.TREASURY_ADDRESS
 
@@ -62,12 +102,30 @@ export function loadConfig(): Config {
 
   return {
     rpcUrl: getEnv('SOLANA_RPC_URL', 'https://api.devnet.solana.com'),
+    rpcUrls: getEnv('SOLANA_RPC_URLS')
+      .split(',')
+      .map((url) => url.trim())
+      .filter(Boolean),
+    wsUrl: process.env.SOLANA_WS_URL || undefined,
+    rpcRateLimit: parseFloat(getEnv('RPC_RATE_LIMIT', '10')),
+    rpcRateLimits: parseRateLimits(getEnv('RPC_RATE_LIMITS')),
     treasuryAddress,
     operatorKeypairPath,
+    operatorSigner: process.env.OPERATOR_SIGNER,
+    keystoreDir: getEnv('KEYSTORE_DIR', './data/keystore'),
+    keystorePassphrase: process.env.KEYSTORE_PASSPHRASE,
+    remoteSignerToken: process.env.REMOTE_SIGNER_TOKEN,
     koraNodeUrl: process.env.KORA_NODE_URL,
     dryRun: getEnv('DRY_RUN', 'true') === 'true',
     cooldownHours: parseInt(getEnv('COOLDOWN_HOURS', '24'), 10),
     minInactiveDays: parseInt(getEnv('MIN_INACTIVE_DAYS', '7'), 10),
+    activityRefreshHours: parseInt(getEnv('ACTIVITY_REFRESH_HOURS', '24'), 10),
+    computeUnitLimit: parseInt(getEnv('COMPUTE_UNIT_LIMIT', '0'), 10),
+    priorityFee: parsePriorityFee(getEnv('PRIORITY_FEE', '0')),
+    maxPriorityFeeShare: parseFloat(getEnv('MAX_PRIORITY_FEE_SHARE', '0.05')),
+    scanSchedule: getEnv('SCAN_SCHEDULE', '0 * * * *'),
+    checkSchedule: getEnv('CHECK_SCHEDULE', '0 */6 * * *'),
+    reclaimSchedule: getEnv('RECLAIM_SCHEDULE', '0 3 * * *'),
     dbPath: getEnv('DB_PATH', './data/accounts.db'),
   }
 }
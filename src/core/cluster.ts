@@ -0,0 +1,115 @@
+import { bindCluster, getClusterBinding } from '../db/cluster.js'
+import { rpcPool } from '../services/rpcPool.js'
+import { logger } from '../utils/logger.js'
+import type { ClusterBindingRow } from './types.js'
+
+export const MAINNET_BETA = 'mainnet-beta'
+
+const CLUSTERS_BY_GENESIS: Record<string, string> = {
+  '5eykt4UsFv8P8NJdTREpY1vzqKqZKvdpKuc147dw2N9d': MAINNET_BETA,
+  EtWTRABZaYq6iMfeYKouRu166VU2xqa1wcaWoxPkrZBG: 'devnet',
+  '4uhcVJyU9pJkvQyS88uRDiswHXSCkY3zQawwpjk2NsNY': 'testnet',
+}
+
+/**
+ * Name of the cluster with a genesis hash ('unknown' for local validators)
+ */
+export function clusterName(genesisHash: string): string {
+  return CLUSTERS_BY_GENESIS[genesisHash] ?? 'unknown'
+}
+
+/**
+ * Keeps a database on the cluster it was populated from
+ * The first verification records the RPC's genesis hash in the database;
+ * later ones refuse to go on if any endpoint reports another. Against
+ * another cluster every tracked account would look closed. Sending on
+ * mainnet-beta also needs the cluster acknowledged by name.
+ */
+export class ClusterGuard {
+  private verified: Promise<ClusterBindingRow> | null = null
+  private acknowledged?: string
+
+  /**
+   * Accept sends on the named cluster (from --cluster)
+   */
+  acknowledge(cluster: string): void {
+    this.acknowledged = cluster
+    this.verified = null
+  }
+
+  /**
+   * Check the RPC is on the database's cluster, binding it on first use
+   * The result is cached, so callers can check before every run.
+   */
+  async verify(): Promise<ClusterBindingRow> {
+    this.verified ??= this.check().catch((error) => {
+      this.verified = null
+      throw error
+    })
+    return this.verified
+  }
+
+  /**
+   * Verify, then refuse mainnet-beta sends that were not acknowledged
+   */
+  async assertCanSend(): Promise<void> {
+    const binding = await this.verify()
+    if (
+      binding.cluster === MAINNET_BETA &&
+      this.acknowledged !== MAINNET_BETA
+    ) {
+      throw new Error(
+        'Refusing to close accounts on mainnet-beta without acknowledgment. ' +
+          'Rerun with --cluster mainnet-beta',
+      )
+    }
+  }
+
+  private async check(): Promise<ClusterBindingRow> {
+    const reports = await rpcPool.getGenesisHashes()
+    if (reports.length === 0) {
+      throw new Error('No RPC endpoint reachable to verify the cluster')
+    }
+
+    const [primary] = reports
+    const stray = reports.find((r) => r.genesisHash !== primary.genesisHash)
+    if (stray) {
+      throw new Error(
+        `RPC endpoints are on different clusters: ${primary.url} is on ` +
+          `${clusterName(primary.genesisHash)}, ${stray.url} is on ${clusterName(stray.genesisHash)}`,
+      )
+    }
+
+    const existing = getClusterBinding()
+    const binding =
+      existing ??
+      bindCluster(
+        primary.genesisHash,
+        clusterName(primary.genesisHash),
+        primary.url,
+      )
+    if (!existing) {
+      logger.info(
+        `Database bound to ${binding.cluster} (genesis ${binding.genesis_hash})`,
+      )
+    }
+
+    if (binding.genesis_hash !== primary.genesisHash) {
+      throw new Error(
+        `This database belongs to ${binding.cluster} (genesis ${binding.genesis_hash}), ` +
+          `but ${primary.url} is on ${clusterName(primary.genesisHash)} (genesis ${primary.genesisHash}). ` +
+          'Use a separate DB_PATH for each cluster.',
+      )
+    }
+    if (this.acknowledged && this.acknowledged !== binding.cluster) {
+      throw new Error(
+        `--cluster ${this.acknowledged} was given, but the RPC is on ${binding.cluster}`,
+      )
+    }
+
+    return binding
+  }
+}
+
+// Export singleton instance
+export const clusterGuard = new ClusterGuard()
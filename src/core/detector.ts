@@ -1,15 +1,34 @@
-import { PublicKey } from '@solana/web3.js'
+import { AccountInfo, PublicKey } from '@solana/web3.js'
 import { getConfig } from '../config.js'
 import {
+  AccountStateUpdate,
   getAllTrackedAccounts,
+  getProtectedAccounts,
   getTrackedAccount,
   isAccountProtected,
   updateAccountState,
+  updateAccountStates,
 } from '../db/accounts.js'
-import { getAccountInfo, getTokenAccountData } from '../services/solana.js'
-import { daysSince, formatSol } from '../utils/helpers.js'
+import {
+  AccountSnapshot,
+  MAX_MULTIPLE_ACCOUNTS,
+  decodeTokenAccount,
+  getAccountInfo,
+  getMultipleAccountsSnapshot,
+} from '../services/solana.js'
+import {
+  chunk,
+  cooldownRemainingMs,
+  daysSince,
+  formatDuration,
+  formatSol,
+} from '../utils/helpers.js'
 import { logger } from '../utils/logger.js'
-import type { DetectionResult } from './types.js'
+import { monitor } from './monitor.js'
+import type { DetectionResult, EventOrigin, TrackedAccount } from './types.js'
+
+// Attribution for account events unless the caller gives one
+const CHECK_ORIGIN: EventOrigin = { source: 'check' }
 
 /**
  * Detector for identifying reclaimable accounts
@@ -19,13 +38,20 @@ export class ReclaimableDetector {
     return getConfig().minInactiveDays
   }
 
+  private get cooldownHours(): number {
+    return getConfig().cooldownHours
+  }
+
   /**
    * Check if a single account is reclaimable
    */
-  async checkAccount(pubkey: PublicKey): Promise<DetectionResult | null> {
-    const trackedAccount = getTrackedAccount(pubkey)
+  async checkAccount(
+    pubkey: PublicKey,
+    origin: EventOrigin = CHECK_ORIGIN,
+  ): Promise<DetectionResult | null> {
+    const stored = getTrackedAccount(pubkey)
 
-    if (!trackedAccount) {
+    if (!stored) {
       logger.warn(`Account not tracked: ${pubkey.toBase58()}`)
       return null
     }
@@ -36,24 +62,43 @@ export class ReclaimableDetector {
       return null
     }
 
+    // Make sure last activity is current before judging inactivity
+    const [trackedAccount] = await monitor.refreshActivity([stored], origin)
+
     // Get current account state from chain
     const accountInfo = await getAccountInfo(pubkey)
 
+    const { result, update } = this.evaluateAccount(trackedAccount, accountInfo)
+    if (update) {
+      updateAccountState(pubkey, update, origin)
+    }
+
+    return result
+  }
+
+  /**
+   * Decide whether an account is reclaimable from its on-chain state.
+   * Pure with respect to the database: the caller persists the returned update.
+   */
+  private evaluateAccount(
+    trackedAccount: TrackedAccount,
+    accountInfo: AccountInfo<Buffer> | null,
+  ): { result: DetectionResult | null; update?: AccountStateUpdate } {
+    const pubkey = trackedAccount.pubkey
+
     // Account is closed (no longer exists on chain)
     if (!accountInfo) {
-      const result: DetectionResult = {
-        account: trackedAccount,
-        reason: 'closed',
-        reclaimableLamports: trackedAccount.rentLamports,
-        safe: true,
-        details:
-          'Account no longer exists on-chain. Rent was already returned to original payer.',
+      return {
+        result: {
+          account: trackedAccount,
+          reason: 'closed',
+          reclaimableLamports: trackedAccount.rentLamports,
+          safe: true,
+          details:
+            'Account no longer exists on-chain. Rent was already returned to original payer.',
+        },
+        update: { status: 'reclaimed', rentLamports: 0 },
       }
-
-      // Update status in DB
-      updateAccountState(pubkey, { status: 'reclaimed', rentLamports: 0 })
-
-      return result
     }
 
     // Check if it's a token account with zero balance
@@ -61,27 +106,46 @@ export class ReclaimableDetector {
       trackedAccount.accountType === 'token_account' ||
       trackedAccount.accountType === 'ata'
     ) {
-      const tokenData = await getTokenAccountData(pubkey)
+      // Decode locally so Token-2022 extensions are understood
+      const tokenData = decodeTokenAccount(pubkey, accountInfo)
 
       if (tokenData && tokenData.amount === 0n) {
-        const result: DetectionResult = {
-          account: {
-            ...trackedAccount,
+        // The empty streak starts now unless it was already observed
+        const firstSeenReclaimableAt =
+          trackedAccount.firstSeenReclaimableAt ?? new Date()
+        const cooldownMs = cooldownRemainingMs(
+          firstSeenReclaimableAt,
+          this.cooldownHours,
+        )
+
+        let details = `Token account has 0 balance. Can close and reclaim ${formatSol(tokenData.lamports)}.`
+        if (tokenData.closeBlocker) {
+          details = `Token account has 0 balance but cannot be closed yet. ${tokenData.closeBlocker}`
+        } else if (cooldownMs > 0) {
+          details = `Token account has 0 balance. Cooldown ends in ${formatDuration(cooldownMs)}.`
+        }
+
+        return {
+          result: {
+            account: {
+              ...trackedAccount,
+              rentLamports: tokenData.lamports,
+              programId: tokenData.programId,
+              firstSeenReclaimableAt,
+            },
+            reason: 'zero_balance',
+            reclaimableLamports: tokenData.lamports,
+            safe: !tokenData.closeBlocker,
+            details,
+            cooldownEndsAt:
+              cooldownMs > 0 ? new Date(Date.now() + cooldownMs) : undefined,
+          },
+          update: {
+            status: 'reclaimable',
             rentLamports: tokenData.lamports,
+            programId: tokenData.programId,
           },
-          reason: 'zero_balance',
-          reclaimableLamports: tokenData.lamports,
-          safe: true,
-          details: `Token account has 0 balance. Can close and reclaim ${formatSol(tokenData.lamports)}.`,
         }
-
-        // Update status in DB
-        updateAccountState(pubkey, {
-          status: 'reclaimable',
-          rentLamports: tokenData.lamports,
-        })
-
-        return result
       }
     }
 
@@ -90,53 +154,97 @@ export class ReclaimableDetector {
       const inactiveDays = daysSince(trackedAccount.lastActivityAt)
 
       if (inactiveDays >= this.minInactiveDays) {
-        const result: DetectionResult = {
-          account: trackedAccount,
-          reason: 'inactive',
-          reclaimableLamports: accountInfo.lamports,
-          safe: false, // Mark as unsafe since we can't automatically close non-empty accounts
-          details: `Account inactive for ${inactiveDays} days. Manual review recommended.`,
+        return {
+          result: {
+            account: trackedAccount,
+            reason: 'inactive',
+            reclaimableLamports: accountInfo.lamports,
+            safe: false, // Mark as unsafe since we can't automatically close non-empty accounts
+            details: `Account inactive for ${inactiveDays} days. Manual review recommended.`,
+          },
         }
-
-        return result
       }
     }
 
     // Account is active/not reclaimable
-    updateAccountState(pubkey, {
-      status: 'active',
-      rentLamports: accountInfo.lamports,
-    })
-    return null
+    return {
+      result: null,
+      update: { status: 'active', rentLamports: accountInfo.lamports },
+    }
+  }
+
+  /**
+   * Find all reclaimable accounts, optionally only one operator's
+   */
+  async findAllReclaimable(
+    operatorId?: number,
+    origin?: EventOrigin,
+  ): Promise<DetectionResult[]> {
+    return this.checkAccounts(getAllTrackedAccounts(operatorId), origin)
   }
 
   /**
-   * Find all reclaimable accounts
+   * Check a set of tracked accounts in batches
+   * Fetches on-chain state in batches and writes status updates, with the
+   * slot they were read at, back in a single transaction.
    */
-  async findAllReclaimable(): Promise<DetectionResult[]> {
-    const accounts = getAllTrackedAccounts()
+  async checkAccounts(
+    accounts: TrackedAccount[],
+    origin: EventOrigin = CHECK_ORIGIN,
+  ): Promise<DetectionResult[]> {
+    const protectedKeys = new Set(
+      getProtectedAccounts().map((p) => p.pubkey.toBase58()),
+    )
     const results: DetectionResult[] = []
+    const updates: (AccountStateUpdate & {
+      pubkey: PublicKey
+      slot: number
+    })[] = []
 
     logger.info(`Checking ${accounts.length} tracked accounts...`)
 
-    for (const account of accounts) {
-      if (account.status === 'reclaimed' || account.status === 'protected') {
-        continue
-      }
+    const toCheck = await monitor.refreshActivity(
+      accounts.filter(
+        (account) =>
+          account.status !== 'reclaimed' &&
+          account.status !== 'protected' &&
+          !protectedKeys.has(account.pubkey.toBase58()),
+      ),
+      origin,
+    )
 
+    for (const batch of chunk(toCheck, MAX_MULTIPLE_ACCOUNTS)) {
+      let snapshots: AccountSnapshot[]
       try {
-        const result = await this.checkAccount(account.pubkey)
-        if (result) {
-          results.push(result)
-        }
-      } catch (error) {
-        logger.error(
-          `Error checking account ${account.pubkey.toBase58()}:`,
-          error,
+        snapshots = await getMultipleAccountsSnapshot(
+          batch.map((a) => a.pubkey),
         )
+      } catch (error) {
+        logger.error(`Error fetching batch of ${batch.length} accounts:`, error)
+        continue
       }
+
+      batch.forEach((account, i) => {
+        try {
+          const { info, slot } = snapshots[i]
+          const { result, update } = this.evaluateAccount(account, info)
+          if (update) {
+            updates.push({ pubkey: account.pubkey, slot, ...update })
+          }
+          if (result) {
+            results.push(result)
+          }
+        } catch (error) {
+          logger.error(
+            `Error checking account ${account.pubkey.toBase58()}:`,
+            error,
+          )
+        }
+      })
     }
 
+    updateAccountStates(updates, origin)
+
     logger.info(
       `Found ${results.length} reclaimable accounts out of ${accounts.length} total`,
     )
@@ -145,11 +253,15 @@ export class ReclaimableDetector {
   }
 
   /**
-   * Find only safe-to-reclaim accounts (zero balance token accounts)
+   * Find only safe-to-reclaim accounts (zero balance token accounts
+   * that have been empty for the whole cooldown window)
    */
-  async findSafeReclaimable(): Promise<DetectionResult[]> {
-    const all = await this.findAllReclaimable()
-    return all.filter((r) => r.safe)
+  async findSafeReclaimable(
+    operatorId?: number,
+    origin?: EventOrigin,
+  ): Promise<DetectionResult[]> {
+    const all = await this.findAllReclaimable(operatorId, origin)
+    return all.filter((r) => r.safe && !r.cooldownEndsAt)
   }
 
   /**
@@ -162,15 +274,16 @@ export class ReclaimableDetector {
 
   /**
    * Get summary of reclaimable rent
+   * Pass already-computed results to avoid re-checking every account.
    */
-  async getReclaimableSummary(): Promise<{
+  async getReclaimableSummary(results?: DetectionResult[]): Promise<{
     totalAccounts: number
     safeToReclaim: number
     unsafeNeedsReview: number
     totalReclaimableLamports: number
     safeReclaimableLamports: number
   }> {
-    const results = await this.findAllReclaimable()
+    results = results ?? (await this.findAllReclaimable())
 
     const safeResults = results.filter((r) => r.safe)
     const unsafeResults = results.filter((r) => !r.safe)
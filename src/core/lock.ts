@@ -0,0 +1,164 @@
+import { AsyncLocalStorage } from 'async_hooks'
+import { hostname } from 'os'
+import {
+  getLease,
+  releaseLease,
+  renewLease,
+  tryAcquireLease,
+} from '../db/locks.js'
+import { logger } from '../utils/logger.js'
+import type { LockRow } from './types.js'
+
+/**
+ * Lease held by anything that closes accounts or settles the journal
+ */
+export const RECLAIM_LOCK = 'reclaim'
+
+// A lease lapses this long after its last heartbeat
+const LEASE_TTL_MS = 2 * 60 * 1000
+const HEARTBEAT_MS = 30 * 1000
+
+/**
+ * Raised when a lease could not be renewed while work was running under it
+ */
+export class LeaseLostError extends Error {
+  constructor(name: string) {
+    super(
+      `Lost the ${name} lock; another process may now run concurrently. Run aborted.`,
+    )
+    this.name = 'LeaseLostError'
+  }
+}
+
+interface HeldLease {
+  purpose: string
+  heartbeat: NodeJS.Timeout
+  lost?: LeaseLostError
+}
+
+/**
+ * Lease-based locks shared through the database
+ * A process holds a lease while it works and renews it with a heartbeat.
+ * Leases of crashed processes expire on their own; a lease left by a dead
+ * process on this host is taken over right away. Locks are reentrant
+ * within one async call chain, so nested entry points share one lease;
+ * a second, unrelated caller in the same process is refused just like
+ * another process would be.
+ */
+export class LeaseManager {
+  readonly holderId = `${hostname()}:${process.pid}`
+  private held = new Map<string, HeldLease>()
+  // Names of the leases held by the current call chain
+  private chain = new AsyncLocalStorage<ReadonlySet<string>>()
+
+  /**
+   * Run `fn` while holding the named lease
+   * Throws without running it if another caller holds the lease.
+   */
+  async withLease<T>(
+    name: string,
+    purpose: string,
+    fn: () => Promise<T>,
+  ): Promise<T> {
+    const names = this.chain.getStore()
+    if (names?.has(name)) return fn()
+
+    this.acquire(name, purpose)
+    try {
+      return await this.chain.run(new Set(names).add(name), fn)
+    } finally {
+      this.release(name)
+    }
+  }
+
+  /**
+   * Throw unless the current call chain still holds the named lease
+   * Checked before each send, so a run stops once its lease is lost.
+   */
+  assertHeld(name: string): void {
+    if (!this.chain.getStore()?.has(name)) {
+      throw new Error(`The ${name} lock is not held`)
+    }
+    const lost = this.held.get(name)?.lost
+    if (lost) throw lost
+  }
+
+  /**
+   * Check whether a lease's holder is a process on this host that has exited
+   */
+  isAbandoned(lease: LockRow): boolean {
+    const [host, pid] = lease.holder.split(':')
+    if (host !== hostname() || lease.holder === this.holderId) return false
+
+    try {
+      process.kill(Number(pid), 0)
+      return false
+    } catch (error) {
+      return (error as NodeJS.ErrnoException).code === 'ESRCH'
+    }
+  }
+
+  private acquire(name: string, purpose: string): void {
+    const entry = this.held.get(name)
+    if (entry) {
+      throw new Error(
+        `The ${name} lock is held by this process (${entry.purpose}). Try again once it finishes`,
+      )
+    }
+
+    const current = getLease(name)
+    const takeOver =
+      current && this.isAbandoned(current) ? current.holder : undefined
+    if (takeOver) {
+      logger.warn(`Taking over ${name} lock from exited process ${takeOver}`)
+    }
+
+    const lease = tryAcquireLease(
+      name,
+      this.holderId,
+      purpose,
+      LEASE_TTL_MS,
+      takeOver,
+    )
+    if (lease.holder !== this.holderId) {
+      throw new Error(
+        `The ${name} lock is held by ${lease.holder} (${lease.purpose ?? 'unknown'}) ` +
+          `until ${lease.expires_at}. Try again later, or clear it with: vacuum lock release`,
+      )
+    }
+
+    const held: HeldLease = {
+      purpose,
+      heartbeat: setInterval(() => {
+        let renewed = false
+        try {
+          renewed = renewLease(name, this.holderId, LEASE_TTL_MS)
+        } catch (error) {
+          logger.debug(`Could not renew ${name} lock:`, error)
+        }
+        if (!renewed) {
+          clearInterval(held.heartbeat)
+          held.lost = new LeaseLostError(name)
+          logger.error(held.lost.message)
+        }
+      }, HEARTBEAT_MS),
+    }
+    held.heartbeat.unref()
+
+    this.held.set(name, held)
+    logger.debug(`Acquired ${name} lock (${purpose})`)
+  }
+
+  private release(name: string): void {
+    const entry = this.held.get(name)
+    if (!entry) return
+
+    clearInterval(entry.heartbeat)
+    this.held.delete(name)
+    releaseLease(name, this.holderId)
+    logger.debug(`Released ${name} lock`)
+  }
+}
+
+// Export singleton instance
+export const leases = new LeaseManager()
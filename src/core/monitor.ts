@@ -1,18 +1,55 @@
 import { PublicKey } from '@solana/web3.js'
+import { getConfig } from '../config.js'
 import {
+  AccountStateUpdate,
   addTrackedAccount,
   getAllTrackedAccounts,
   getTrackedAccount,
+  updateAccountStates,
 } from '../db/accounts.js'
+import { getDefaultOperator, getOperatorById } from '../db/operators.js'
 import {
+  clearSponsorScanFailures,
+  getSponsorCursor,
+  getSponsorScanFailures,
+  recordSponsorScanFailures,
+  saveSponsorCursor,
+} from '../db/sponsors.js'
+import {
+  CreatedAccount,
+  extractCreatedAccounts,
+} from '../services/extractor.js'
+import { koraService } from '../services/kora.js'
+import {
+  decodeTokenAccount,
   detectAccountType,
   getAccountInfo,
-  getConnection,
+  getLastActivityTime,
+  getMultipleAccountsSnapshot,
   getOperatorTokenAccounts,
+  getParsedTransaction,
+  getSignatureHistory,
+  isTokenProgram,
 } from '../services/solana.js'
-import { formatSol, shortenPubkey } from '../utils/helpers.js'
+import { getSigner } from '../services/signer.js'
+import { chunk, formatSol, shortenPubkey } from '../utils/helpers.js'
 import { logger } from '../utils/logger.js'
-import type { AccountType, ScanOptions, TrackedAccount } from './types.js'
+import type {
+  AccountType,
+  EventOrigin,
+  ScanOptions,
+  SignatureScanResult,
+  TrackedAccount,
+} from './types.js'
+
+// Transactions per sponsor scan run unless ScanOptions.limit says otherwise
+const DEFAULT_SPONSOR_SCAN_LIMIT = 1000
+// Transactions handed to scanFromSignatures at a time
+const SPONSOR_SCAN_BATCH = 100
+// Scans of a sponsor that may fail to load a transaction before it is dropped
+const MAX_SCAN_ATTEMPTS = 5
+// Attribution for account events unless ScanOptions gives one
+const SCAN_ORIGIN: EventOrigin = { source: 'scan' }
 
 /**
  * Monitor for tracking sponsored accounts
@@ -20,13 +57,28 @@ import type { AccountType, ScanOptions, TrackedAccount } from './types.js'
 export class AccountMonitor {
   /**
    * Scan all token accounts owned by the operator and add them to tracking
+   * Uses the given registered operator, else the default one, else the
+   * keypair from the global config.
    */
   async scanOperatorAccounts(
-    _options = { fullScan: false },
+    options: Pick<ScanOptions, 'operatorId' | 'origin'> = {},
   ): Promise<TrackedAccount[]> {
-    logger.info('Scanning operator token accounts...')
+    const operator =
+      options.operatorId !== undefined
+        ? getOperatorById(options.operatorId)
+        : getDefaultOperator()
+    if (options.operatorId !== undefined && !operator) {
+      throw new Error(`Operator not found: ID ${options.operatorId}`)
+    }
 
-    const tokenAccounts = await getOperatorTokenAccounts()
+    logger.info(
+      operator
+        ? `Scanning token accounts for operator ${operator.name}...`
+        : 'Scanning operator token accounts...',
+    )
+
+    const signer = await getSigner(operator?.keypair_path)
+    const tokenAccounts = await getOperatorTokenAccounts(signer.publicKey)
     const tracked: TrackedAccount[] = []
 
     for (const { pubkey, account } of tokenAccounts) {
@@ -46,12 +98,14 @@ export class AccountMonitor {
         rentLamports: lamports,
         owner: new PublicKey(info.owner),
         mint: new PublicKey(info.mint),
+        programId: account.owner,
         createdAt: new Date(),
         lastCheckedAt: new Date(),
         status: amount === 0n ? 'reclaimable' : 'active',
+        operatorId: operator?.id,
       }
 
-      addTrackedAccount(trackedAccount)
+      addTrackedAccount(trackedAccount, options.origin ?? SCAN_ORIGIN)
       tracked.push(trackedAccount as TrackedAccount)
 
       logger.debug(
@@ -61,20 +115,87 @@ export class AccountMonitor {
       )
     }
 
+    // Re-read from DB so accounts with fresh activity data are skipped
+    await this.refreshActivity(
+      tracked.map((account) => getTrackedAccount(account.pubkey) ?? account),
+      options.origin,
+    )
+
     logger.success(`Scanned ${tracked.length} token accounts`)
     return tracked
   }
 
+  /**
+   * Refresh lastActivityAt from on-chain signature history
+   * Only accounts whose activity was last queried more than
+   * ACTIVITY_REFRESH_HOURS ago are re-queried.
+   */
+  async refreshActivity(
+    accounts: TrackedAccount[],
+    origin: EventOrigin = SCAN_ORIGIN,
+  ): Promise<TrackedAccount[]> {
+    const staleAfterMs = getConfig().activityRefreshHours * 60 * 60 * 1000
+    const now = Date.now()
+    const refreshed: TrackedAccount[] = []
+    const updates: (AccountStateUpdate & { pubkey: PublicKey })[] = []
+
+    for (const account of accounts) {
+      const isFresh =
+        account.activityCheckedAt &&
+        now - account.activityCheckedAt.getTime() < staleAfterMs
+
+      if (isFresh || account.status === 'reclaimed') {
+        refreshed.push(account)
+        continue
+      }
+
+      try {
+        const lastActivityAt =
+          (await getLastActivityTime(account.pubkey)) ?? undefined
+        const activityCheckedAt = new Date()
+
+        updates.push({
+          pubkey: account.pubkey,
+          lastActivityAt,
+          activityCheckedAt,
+        })
+        refreshed.push({
+          ...account,
+          lastActivityAt: lastActivityAt ?? account.lastActivityAt,
+          activityCheckedAt,
+        })
+      } catch (error) {
+        logger.debug(
+          `Error fetching activity for ${shortenPubkey(account.pubkey)}:`,
+          error,
+        )
+        refreshed.push(account)
+      }
+    }
+
+    updateAccountStates(updates, origin)
+
+    if (updates.length > 0) {
+      logger.debug(`Refreshed last activity for ${updates.length} accounts`)
+    }
+
+    return refreshed
+  }
+
   /**
    * Scan accounts from transaction signatures (for Kora-sponsored accounts)
-   * This would parse transaction logs to find sponsored account creations
+   * Every account the transactions created is tracked with its rent payer
+   * and block time. Accounts already tracked get the payer, sponsor
+   * transaction and creation time filled in; closed ones are skipped.
+   * Transactions that can't be loaded are reported back, not skipped
+   * silently.
    */
   async scanFromSignatures(
     signatures: string[],
-    _options: ScanOptions = {},
-  ): Promise<TrackedAccount[]> {
-    const conn = getConnection()
-    const tracked: TrackedAccount[] = []
+    options: ScanOptions = {},
+  ): Promise<SignatureScanResult> {
+    const found: { created: CreatedAccount; signature: string }[] = []
+    const failed: SignatureScanResult['failed'] = []
 
     logger.info(
       `Scanning ${signatures.length} transactions for sponsored accounts...`,
@@ -82,71 +203,224 @@ export class AccountMonitor {
 
     for (const signature of signatures) {
       try {
-        const tx = await conn.getParsedTransaction(signature, {
-          maxSupportedTransactionVersion: 0,
-        })
+        const tx = await getParsedTransaction(signature)
+        if (!tx) {
+          failed.push({ signature, error: 'Transaction not found' })
+          continue
+        }
 
-        if (!tx || !tx.meta) continue
-
-        // Look for account creation in inner instructions
-        // This is where Kora would create sponsored accounts
-        const innerInstructions = tx.meta.innerInstructions || []
-
-        for (const inner of innerInstructions) {
-          for (const instruction of inner.instructions) {
-            // Check for createAccount or initializeAccount instructions
-            if ('parsed' in instruction) {
-              const parsed = instruction.parsed
-
-              if (
-                parsed.type === 'createAccount' ||
-                parsed.type === 'initializeAccount' ||
-                parsed.type === 'initializeAccount3'
-              ) {
-                const info = parsed.info
-                const accountPubkey = new PublicKey(
-                  info.account || info.newAccount,
-                )
-
-                // Check if account exists and get its info
-                const accountInfo = await getAccountInfo(accountPubkey)
-                if (!accountInfo) continue
-
-                const accountType = detectAccountType(accountInfo)
-
-                const trackedAccount: Omit<TrackedAccount, 'id'> = {
-                  pubkey: accountPubkey,
-                  accountType,
-                  sponsorTx: signature,
-                  rentLamports: accountInfo.lamports,
-                  createdAt: new Date(),
-                  lastCheckedAt: new Date(),
-                  status: 'active',
-                }
-
-                // Avoid duplicates
-                if (!getTrackedAccount(accountPubkey)) {
-                  addTrackedAccount(trackedAccount)
-                  tracked.push(trackedAccount as TrackedAccount)
-
-                  logger.debug(
-                    `Found sponsored account: ${shortenPubkey(accountPubkey)} | ` +
-                      `Type: ${accountType} | Rent: ${formatSol(accountInfo.lamports)}`,
-                  )
-                }
-              }
-            }
-          }
+        for (const created of extractCreatedAccounts(tx)) {
+          if (options.payer && !created.payer?.equals(options.payer)) continue
+          found.push({ created, signature })
         }
       } catch (error) {
         logger.debug(
           `Error parsing transaction ${shortenPubkey(signature)}:`,
           error,
         )
+        failed.push({
+          signature,
+          error: error instanceof Error ? error.message : String(error),
+        })
       }
     }
 
+    const snapshots = await getMultipleAccountsSnapshot(
+      found.map(({ created }) => created.pubkey),
+    )
+    const tracked: TrackedAccount[] = []
+    let enriched = 0
+
+    for (const [i, { created, signature }] of found.entries()) {
+      // Already closed: nothing left to reclaim
+      const { info: accountInfo, slot } = snapshots[i]
+      if (!accountInfo) continue
+
+      const tokenData = decodeTokenAccount(created.pubkey, accountInfo)
+      const existing = getTrackedAccount(created.pubkey)
+
+      const trackedAccount: Omit<TrackedAccount, 'id'> = {
+        pubkey: created.pubkey,
+        accountType:
+          created.accountType === 'unknown'
+            ? detectAccountType(accountInfo)
+            : created.accountType,
+        sponsorTx: signature,
+        payer: created.payer,
+        rentLamports: accountInfo.lamports,
+        owner: tokenData?.owner ?? created.owner,
+        mint: tokenData?.mint ?? created.mint,
+        programId: isTokenProgram(accountInfo.owner)
+          ? accountInfo.owner
+          : created.programId,
+        createdAt: created.createdAt ?? existing?.createdAt ?? new Date(),
+        lastCheckedAt: new Date(),
+        status: tokenData?.amount === 0n ? 'reclaimable' : 'active',
+        operatorId: options.operatorId,
+      }
+
+      addTrackedAccount(trackedAccount, {
+        ...(options.origin ?? SCAN_ORIGIN),
+        slot,
+        detail: signature,
+      })
+      if (existing) {
+        enriched++
+        continue
+      }
+      tracked.push(trackedAccount as TrackedAccount)
+
+      logger.debug(
+        `Found sponsored account: ${shortenPubkey(created.pubkey)} | ` +
+          `Type: ${trackedAccount.accountType} | Rent: ${formatSol(accountInfo.lamports)}` +
+          (created.payer ? ` | Payer: ${shortenPubkey(created.payer)}` : ''),
+      )
+    }
+
+    if (enriched > 0) {
+      logger.debug(`Updated creation details for ${enriched} tracked accounts`)
+    }
+    if (failed.length > 0) {
+      logger.warn(`Could not load ${failed.length} transactions`)
+    }
     logger.success(`Found ${tracked.length} new sponsored accounts`)
+    return { tracked, failed }
+  }
+
+  /**
+   * Scan a sponsor's (fee payer's) transactions for accounts it created
+   * The first run walks back `limit` transactions from the latest. Later
+   * runs process only transactions newer than the stored cursor, oldest
+   * first, at most `limit` per run. With `fromSignature`, walks further
+   * back from that signature instead (backfill). Transactions that fail to
+   * load are stored and retried by the next scan of the sponsor, up to
+   * MAX_SCAN_ATTEMPTS times, so the cursor can still move on.
+   */
+  async scanSponsor(
+    sponsor: PublicKey,
+    options: ScanOptions = {},
+  ): Promise<TrackedAccount[]> {
+    const cursor = getSponsorCursor(sponsor)
+    const limit = options.limit ?? DEFAULT_SPONSOR_SCAN_LIMIT
+    const incremental = !options.fromSignature && !!cursor?.newest_signature
+
+    logger.info(
+      incremental
+        ? `Fetching transactions for ${shortenPubkey(sponsor)} since last scan...`
+        : `Fetching up to ${limit} transactions for ${shortenPubkey(sponsor)}...`,
+    )
+
+    const history = await getSignatureHistory(
+      sponsor,
+      incremental
+        ? { until: cursor!.newest_signature! }
+        : { before: options.fromSignature, limit },
+    )
+
+    const retries = getSponsorScanFailures(sponsor).map((row) => row.signature)
+    if (retries.length > 0) {
+      logger.info(
+        `Retrying ${retries.length} transactions earlier scans could not load`,
+      )
+    }
+
+    // Oldest first, so the cursor never skips past unprocessed history
+    const toScan = [...history.signatures].reverse().slice(0, limit)
+    const tracked: TrackedAccount[] = []
+    const failed: SignatureScanResult['failed'] = []
+    for (const batch of chunk([...retries, ...toScan], SPONSOR_SCAN_BATCH)) {
+      const result = await this.scanFromSignatures(batch, {
+        ...options,
+        payer: sponsor,
+      })
+      tracked.push(...result.tracked)
+      failed.push(...result.failed)
+    }
+    this.saveScanFailures(sponsor, retries, failed)
+
+    if (incremental) {
+      saveSponsorCursor(sponsor, {
+        newestSignature: toScan[toScan.length - 1],
+        transactionsScanned: toScan.length,
+      })
+      if (history.signatures.length > toScan.length) {
+        logger.info(
+          `${history.signatures.length - toScan.length} newer transactions left for the next run`,
+        )
+      }
+    } else {
+      saveSponsorCursor(sponsor, {
+        // A backfill never moves the incremental cursor once it is set
+        newestSignature: cursor?.newest_signature
+          ? undefined
+          : history.signatures[0],
+        oldestSignature: history.oldest,
+        historyComplete: history.complete,
+        transactionsScanned: toScan.length,
+      })
+      if (!history.complete && history.oldest) {
+        logger.info(
+          `Older history remains; continue with: vacuum scan --sponsor ${sponsor.toBase58()} --backfill`,
+        )
+      }
+    }
+
+    return tracked
+  }
+
+  /**
+   * Store a sponsor scan's failed transactions for the next scan
+   * Retries that loaded are cleared; ones that keep failing are given up
+   * on after MAX_SCAN_ATTEMPTS.
+   */
+  private saveScanFailures(
+    sponsor: PublicKey,
+    retried: string[],
+    failed: SignatureScanResult['failed'],
+  ): void {
+    const stillFailing = new Set(failed.map((f) => f.signature))
+    clearSponsorScanFailures(
+      sponsor,
+      retried.filter((signature) => !stillFailing.has(signature)),
+    )
+    recordSponsorScanFailures(sponsor, failed)
+
+    const abandoned = getSponsorScanFailures(sponsor).filter(
+      (row) => row.attempts >= MAX_SCAN_ATTEMPTS,
+    )
+    for (const row of abandoned) {
+      logger.warn(
+        `Giving up on transaction ${row.signature} after ${row.attempts} attempts: ${row.last_error}`,
+      )
+    }
+    clearSponsorScanFailures(
+      sponsor,
+      abandoned.map((row) => row.signature),
+    )
+
+    const pending = failed.length - abandoned.length
+    if (pending > 0) {
+      logger.warn(
+        `${pending} transactions of ${shortenPubkey(sponsor)} could not be loaded; the next scan retries them`,
+      )
+    }
+  }
+
+  /**
+   * Scan the history of every fee payer the Kora node signs with
+   * Fee payers come from the node itself, so a signer pool is covered
+   * without listing its addresses. Each one keeps its own sponsor cursor.
+   */
+  async scanKoraSponsors(options: ScanOptions = {}): Promise<TrackedAccount[]> {
+    const feePayers = await koraService.getFeePayers()
+    logger.info(
+      `Kora node signs with ${feePayers.length} fee payer(s): ${feePayers.map((p) => shortenPubkey(p)).join(', ')}`,
+    )
+
+    const tracked: TrackedAccount[] = []
+    for (const feePayer of feePayers) {
+      tracked.push(...(await this.scanSponsor(feePayer, options)))
+    }
     return tracked
   }
 
@@ -156,6 +430,7 @@ export class AccountMonitor {
   async trackAccount(
     pubkey: PublicKey,
     sponsorTx?: string,
+    origin: EventOrigin = SCAN_ORIGIN,
   ): Promise<TrackedAccount | null> {
     // Check if already tracked
     const existing = getTrackedAccount(pubkey)
@@ -178,12 +453,15 @@ export class AccountMonitor {
       accountType,
       sponsorTx,
       rentLamports: accountInfo.lamports,
+      programId: isTokenProgram(accountInfo.owner)
+        ? accountInfo.owner
+        : undefined,
       createdAt: new Date(),
       lastCheckedAt: new Date(),
       status: 'active',
     }
 
-    const id = addTrackedAccount(trackedAccount)
+    const id = addTrackedAccount(trackedAccount, origin)
 
     logger.success(
       `Now tracking: ${pubkey.toBase58()} | Type: ${accountType} | ` +
@@ -0,0 +1,453 @@
+import { decodeCloseAccountInstruction } from '@solana/spl-token'
+import {
+  ComputeBudgetProgram,
+  PublicKey,
+  SystemInstruction,
+  SystemProgram,
+  Transaction,
+} from '@solana/web3.js'
+import bs58 from 'bs58'
+import { getConfig } from '../config.js'
+import { getTrackedAccount } from '../db/accounts.js'
+import {
+  addPendingJournalEntries,
+  confirmJournalEntries,
+  resolveJournalEntries,
+} from '../db/journal.js'
+import { getDefaultOperator } from '../db/operators.js'
+import { addSimulationRecord } from '../db/simulations.js'
+import type { Signer } from '../services/signer.js'
+import {
+  DurableNonce,
+  buildCloseTransaction,
+  decodeTokenAccount,
+  getComputeBudget,
+  getDurableNonce,
+  getMultipleAccountsInfo,
+  isTokenProgram,
+  packCloseTargets,
+  priorityFeeLamports,
+  sendSignedTransaction,
+  simulateTransaction,
+  simulateWithComputeBudget,
+} from '../services/solana.js'
+import { formatSol, shortenPubkey } from '../utils/helpers.js'
+import { logger } from '../utils/logger.js'
+import { clusterGuard } from './cluster.js'
+import { RECLAIM_LOCK, leases } from './lock.js'
+import { failedResult, reclaimer } from './reclaimer.js'
+import type {
+  DetectionResult,
+  OfflineReclaimFile,
+  OfflineTransaction,
+  ReclaimOptions,
+  ReclaimResult,
+} from './types.js'
+
+/**
+ * Offline signing workflow for cold operator keys
+ * Close transactions are built on a networked host with durable nonces,
+ * signed on an air-gapped machine, then verified and broadcast.
+ */
+export class OfflineReclaimer {
+  /**
+   * Build unsigned close transactions, one per durable nonce account
+   * The nonce authority must be the operator that owns the accounts.
+   * Accounts that fail pre-checks, or don't fit in the available nonces,
+   * are returned as skipped.
+   */
+  async exportUnsigned(
+    detections: DetectionResult[],
+    nonceAccounts: PublicKey[],
+    options: ReclaimOptions = {},
+  ): Promise<{ file: OfflineReclaimFile; skipped: ReclaimResult[] }> {
+    if (nonceAccounts.length === 0) {
+      throw new Error('At least one durable nonce account is required')
+    }
+
+    const nonces: DurableNonce[] = []
+    for (const nonceAccount of nonceAccounts) {
+      nonces.push(await getDurableNonce(nonceAccount))
+    }
+
+    const authority = nonces[0].authority
+    const foreign = nonces.find((n) => !n.authority.equals(authority))
+    if (foreign) {
+      throw new Error(
+        `Nonce account ${foreign.nonceAccount.toBase58()} has a different authority ` +
+          `(${foreign.authority.toBase58()}); all nonces must belong to the operator`,
+      )
+    }
+
+    const treasury = reclaimer.treasuryFor(
+      options.operatorId ?? getDefaultOperator()?.id,
+    )
+
+    const toProcess = detections.slice(
+      0,
+      options.maxAccounts ?? detections.length,
+    )
+    const pubkeys = toProcess.map((d) => d.account.pubkey)
+    const infos = await getMultipleAccountsInfo(pubkeys)
+
+    const skipped: ReclaimResult[] = []
+    const candidates: (DetectionResult & {
+      pubkey: PublicKey
+      programId: PublicKey
+      lamports: number
+      mint: PublicKey
+    })[] = []
+
+    toProcess.forEach((detection, i) => {
+      const tokenData = infos[i]
+        ? decodeTokenAccount(pubkeys[i], infos[i])
+        : null
+      const rejection = reclaimer.precheck(detection, tokenData, false)
+
+      if (rejection) {
+        skipped.push(rejection)
+      } else if (tokenData && !tokenData.owner.equals(authority)) {
+        skipped.push(
+          failedResult(
+            pubkeys[i],
+            `Nonce authority is not the account owner. Owner: ${tokenData.owner.toBase58()}`,
+          ),
+        )
+      } else if (tokenData) {
+        candidates.push({
+          ...detection,
+          pubkey: pubkeys[i],
+          programId: tokenData.programId,
+          lamports: tokenData.lamports,
+          mint: tokenData.mint,
+        })
+      }
+    })
+
+    const groups = packCloseTargets(candidates, treasury, authority, nonces[0])
+    const transactions: OfflineTransaction[] = []
+
+    for (const group of groups) {
+      const nonce = nonces[transactions.length]
+      if (!nonce) {
+        for (const candidate of group) {
+          skipped.push(
+            failedResult(
+              candidate.pubkey,
+              'No durable nonce account left for this transaction',
+            ),
+          )
+        }
+        continue
+      }
+
+      const totalLamports = group.reduce((sum, c) => sum + c.lamports, 0)
+      const estimate = await getComputeBudget(group)
+      reclaimer.checkFeeCeiling(estimate, totalLamports)
+
+      // Catch accounts that can't be closed before anyone signs for them
+      const { simulation, budget } = await simulateWithComputeBudget(
+        (budget) =>
+          buildCloseTransaction(group, treasury, authority, budget, nonce),
+        estimate,
+      )
+      reclaimer.checkFeeCeiling(budget, totalLamports)
+      const transaction = buildCloseTransaction(
+        group,
+        treasury,
+        authority,
+        budget,
+        nonce,
+      )
+      addSimulationRecord(
+        group.map((c) => c.pubkey),
+        simulation,
+      )
+      if (!simulation.success) {
+        for (const candidate of group) {
+          skipped.push({
+            ...failedResult(
+              candidate.pubkey,
+              `Simulation failed (${simulation.errorCode}): ${simulation.error}`,
+            ),
+            errorCode: simulation.errorCode,
+            retryable: false,
+            simulation,
+          })
+        }
+        continue
+      }
+
+      transactions.push({
+        nonceAccount: nonce.nonceAccount.toBase58(),
+        nonce: nonce.nonce,
+        summary:
+          `Close ${group.length} token accounts owned by ${authority.toBase58()}, ` +
+          `sending ${formatSol(totalLamports)} to ${treasury.toBase58()}`,
+        accounts: group.map((c) => ({
+          pubkey: c.pubkey.toBase58(),
+          mint: c.mint.toBase58(),
+          lamports: c.lamports,
+          amount: formatSol(c.lamports),
+          reason: c.reason,
+        })),
+        totalLamports,
+        priorityFeeLamports: priorityFeeLamports(budget),
+        transaction: transaction
+          .serialize({ requireAllSignatures: false, verifySignatures: false })
+          .toString('base64'),
+      })
+    }
+
+    const totalLamports = transactions.reduce(
+      (sum, t) => sum + t.totalLamports,
+      0,
+    )
+
+    return {
+      file: {
+        version: 1,
+        status: 'unsigned',
+        createdAt: new Date().toISOString(),
+        rpcUrl: getConfig().rpcUrl,
+        authority: authority.toBase58(),
+        treasury: treasury.toBase58(),
+        transactions,
+        totalLamports,
+        totalSol: formatSol(totalLamports),
+      },
+      skipped,
+    }
+  }
+
+  /**
+   * Sign every transaction in an unsigned file
+   * Needs no network access, so it can run on an air-gapped machine.
+   */
+  async signFile(
+    file: OfflineReclaimFile,
+    signer: Signer,
+  ): Promise<OfflineReclaimFile> {
+    if (file.status !== 'unsigned') {
+      throw new Error(`Expected an unsigned file, got: ${file.status}`)
+    }
+    if (signer.publicKey.toBase58() !== file.authority) {
+      throw new Error(
+        `Signer ${signer.publicKey.toBase58()} is not the file's authority ${file.authority}`,
+      )
+    }
+
+    const transactions: OfflineTransaction[] = []
+    for (const entry of file.transactions) {
+      const transaction = this.decodeTransaction(file, entry, false)
+      await signer.signTransaction(transaction)
+      transactions.push({
+        ...entry,
+        transaction: transaction.serialize().toString('base64'),
+      })
+    }
+
+    return { ...file, status: 'signed', transactions }
+  }
+
+  /**
+   * Verify and broadcast a signed file
+   * Every transaction is checked against its summary before any is sent,
+   * then each is simulated, journaled and sent until it confirms or its
+   * nonce is advanced by something else.
+   */
+  async broadcast(file: OfflineReclaimFile): Promise<ReclaimResult[]> {
+    await clusterGuard.assertCanSend()
+    return leases.withLease(RECLAIM_LOCK, 'offline broadcast', () =>
+      this.broadcastFile(file),
+    )
+  }
+
+  /**
+   * Broadcast a signed file; the caller holds the reclaim lock
+   */
+  private async broadcastFile(
+    file: OfflineReclaimFile,
+  ): Promise<ReclaimResult[]> {
+    if (file.status !== 'signed') {
+      throw new Error(`Expected a signed file, got: ${file.status}`)
+    }
+    if (file.rpcUrl !== getConfig().rpcUrl) {
+      logger.warn(
+        `File was built against ${file.rpcUrl}, broadcasting to ${getConfig().rpcUrl}`,
+      )
+    }
+
+    const transactions = file.transactions.map((entry) =>
+      this.decodeTransaction(file, entry, true),
+    )
+    const results: ReclaimResult[] = []
+
+    for (let i = 0; i < transactions.length; i++) {
+      const entry = file.transactions[i]
+      const transaction = transactions[i]
+      const signature = bs58.encode(transaction.signature!)
+      const accountPubkeys = entry.accounts.map((a) => new PublicKey(a.pubkey))
+      const fail = (error: string, extra: Partial<ReclaimResult> = {}) => {
+        logger.error(`Transaction ${shortenPubkey(signature)} failed:`, error)
+        results.push(
+          ...accountPubkeys.map((pubkey) => ({
+            ...failedResult(pubkey, error),
+            ...extra,
+          })),
+        )
+      }
+
+      logger.info(`[${i + 1}/${transactions.length}] ${entry.summary}`)
+
+      const simulation = await simulateTransaction(transaction, true)
+      addSimulationRecord(accountPubkeys, simulation)
+      if (!simulation.success) {
+        fail(
+          `Simulation failed (${simulation.errorCode}): ${simulation.error}`,
+          {
+            errorCode: simulation.errorCode,
+            retryable: false,
+            simulation,
+          },
+        )
+        continue
+      }
+
+      leases.assertHeld(RECLAIM_LOCK)
+
+      // Durable nonce transactions don't expire with block height: they
+      // expire once the nonce is advanced
+      const nonceAccount = new PublicKey(entry.nonceAccount)
+      addPendingJournalEntries(
+        signature,
+        entry.nonce,
+        Number.MAX_SAFE_INTEGER,
+        entry.accounts.map((a, j) => ({
+          pubkey: accountPubkeys[j],
+          lamports: a.lamports,
+          reason: a.reason,
+          operatorId: getTrackedAccount(accountPubkeys[j])?.operatorId,
+        })),
+        nonceAccount,
+      )
+
+      const outcome = await sendSignedTransaction({
+        transaction,
+        signature,
+        blockhash: entry.nonce,
+        lastValidBlockHeight: Number.MAX_SAFE_INTEGER,
+        nonceAccount,
+      })
+
+      if (outcome.status === 'confirmed') {
+        confirmJournalEntries(signature, {
+          source: 'reclaim',
+          slot: outcome.slot,
+        })
+        for (const account of entry.accounts) {
+          logger.success(
+            `Reclaimed ${account.amount} from ${shortenPubkey(account.pubkey)}`,
+          )
+          results.push({
+            accountPubkey: new PublicKey(account.pubkey),
+            amountReclaimed: account.lamports,
+            txSignature: signature,
+            timestamp: new Date(),
+            success: true,
+            simulation,
+          })
+        }
+      } else if (outcome.status === 'failed') {
+        resolveJournalEntries(signature, 'failed', outcome.error)
+        fail(outcome.error)
+      } else {
+        resolveJournalEntries(signature, 'expired')
+        fail('Nonce was advanced before this transaction landed')
+      }
+    }
+
+    return results
+  }
+
+  /**
+   * Decode a transaction and check it does exactly what its summary says:
+   * advance the listed nonce, then close the listed accounts into the
+   * treasury. Throws on any mismatch.
+   */
+  private decodeTransaction(
+    file: OfflineReclaimFile,
+    entry: OfflineTransaction,
+    requireSignature: boolean,
+  ): Transaction {
+    const transaction = Transaction.from(
+      Buffer.from(entry.transaction, 'base64'),
+    )
+    const mismatch = (what: string) =>
+      new Error(`Transaction for nonce ${entry.nonceAccount}: ${what}`)
+
+    if (transaction.feePayer?.toBase58() !== file.authority) {
+      throw mismatch('fee payer is not the authority')
+    }
+    if (transaction.recentBlockhash !== entry.nonce) {
+      throw mismatch('blockhash is not the recorded nonce')
+    }
+
+    const [advance, ...rest] = transaction.instructions
+    if (
+      !advance?.programId.equals(SystemProgram.programId) ||
+      SystemInstruction.decodeInstructionType(advance) !== 'AdvanceNonceAccount'
+    ) {
+      throw mismatch('first instruction does not advance the nonce')
+    }
+    const { noncePubkey, authorizedPubkey } =
+      SystemInstruction.decodeNonceAdvance(advance)
+    if (
+      noncePubkey.toBase58() !== entry.nonceAccount ||
+      authorizedPubkey.toBase58() !== file.authority
+    ) {
+      throw mismatch('nonce advance does not match the recorded nonce')
+    }
+
+    const closed = new Set<string>()
+    for (const instruction of rest) {
+      if (instruction.programId.equals(ComputeBudgetProgram.programId)) {
+        continue
+      }
+      if (!isTokenProgram(instruction.programId)) {
+        throw mismatch(
+          `unexpected instruction for program ${instruction.programId.toBase58()}`,
+        )
+      }
+
+      const { keys } = decodeCloseAccountInstruction(
+        instruction,
+        instruction.programId,
+      )
+      if (keys.destination.pubkey.toBase58() !== file.treasury) {
+        throw mismatch('close destination is not the treasury')
+      }
+      if (keys.authority.pubkey.toBase58() !== file.authority) {
+        throw mismatch('close authority is not the file authority')
+      }
+      closed.add(keys.account.pubkey.toBase58())
+    }
+
+    const listed = new Set(entry.accounts.map((a) => a.pubkey))
+    if (
+      closed.size !== listed.size ||
+      [...listed].some((pubkey) => !closed.has(pubkey))
+    ) {
+      throw mismatch('closed accounts do not match the summary')
+    }
+
+    if (requireSignature && !transaction.verifySignatures()) {
+      throw mismatch('missing or invalid signature')
+    }
+
+    return transaction
+  }
+}
+
+// Export singleton instance
+export const offlineReclaimer = new OfflineReclaimer()
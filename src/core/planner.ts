@@ -0,0 +1,291 @@
+import { PublicKey } from '@solana/web3.js'
+import { getConfig } from '../config.js'
+import { PlanItemResult, addPlan, getPlan, resolvePlan } from '../db/plans.js'
+import {
+  AccountSnapshot,
+  decodeTokenAccount,
+  getMultipleAccountsSnapshot,
+} from '../services/solana.js'
+import { formatSol, shortenPubkey } from '../utils/helpers.js'
+import { logger } from '../utils/logger.js'
+import { RECLAIM_LOCK, leases } from './lock.js'
+import { failedResult, reclaimer } from './reclaimer.js'
+import type {
+  AccountStatus,
+  AccountType,
+  DetectionResult,
+  PlanStatus,
+  ReclaimPlanFile,
+  ReclaimReason,
+  ReclaimResult,
+  StateFingerprint,
+  TrackedAccount,
+} from './types.js'
+
+/**
+ * Reviewable reclaim plans
+ * A plan pins the exact set of detections together with the on-chain
+ * state each decision was based on. Applying it closes only those
+ * accounts, and only while their state still matches.
+ */
+export class ReclaimPlanner {
+  /**
+   * Fingerprint the detections on-chain and store them as a plan
+   */
+  async createPlan(
+    detections: DetectionResult[],
+    options: {
+      status?: Exclude<PlanStatus, 'applied'>
+      operatorId?: number
+    } = {},
+  ): Promise<ReclaimPlanFile> {
+    const status = options.status ?? 'planned'
+    const config = getConfig()
+    const snapshot = await getMultipleAccountsSnapshot(
+      detections.map((d) => d.account.pubkey),
+    )
+
+    const items = detections.map((detection, i) => ({
+      // PublicKeys serialize to base58 and Dates to ISO strings
+      detection: JSON.parse(JSON.stringify(detection)) as Record<
+        string,
+        unknown
+      >,
+      fingerprint: fingerprintOf(detection.account.pubkey, snapshot[i]),
+    }))
+    const totalLamports = detections.reduce(
+      (sum, d) => sum + d.reclaimableLamports,
+      0,
+    )
+
+    const content: Omit<ReclaimPlanFile, 'id'> = {
+      version: 1,
+      createdAt: new Date().toISOString(),
+      rpcUrl: config.rpcUrl,
+      operatorId: options.operatorId ?? null,
+      totalLamports,
+      totalSol: formatSol(totalLamports),
+      items,
+    }
+
+    const id = addPlan({
+      status,
+      operatorId: options.operatorId,
+      rpcUrl: config.rpcUrl,
+      totalLamports,
+      planJson: JSON.stringify(content),
+      items: detections.map((detection, i) => ({
+        pubkey: detection.account.pubkey.toBase58(),
+        reason: detection.reason,
+        fingerprint: items[i].fingerprint,
+      })),
+    })
+
+    logger.debug(`Stored ${status} plan #${id} with ${items.length} accounts`)
+    return { id, ...content }
+  }
+
+  /**
+   * Store a dry run as a plan, with what each account would have done
+   */
+  async recordDryRun(
+    detections: DetectionResult[],
+    results: ReclaimResult[],
+    operatorId?: number,
+  ): Promise<number> {
+    const plan = await this.createPlan(detections, {
+      status: 'dry_run',
+      operatorId,
+    })
+    const byPubkey = new Map(
+      results.map((r) => [r.accountPubkey.toBase58(), r]),
+    )
+
+    resolvePlan(
+      plan.id,
+      'dry_run',
+      detections.map((detection) => {
+        const pubkey = detection.account.pubkey.toBase58()
+        const result = byPubkey.get(pubkey)
+        return {
+          pubkey,
+          outcome: result?.success ? 'would_close' : 'skipped',
+          amountReclaimed: result?.amountReclaimed,
+          error: result?.error,
+        }
+      }),
+    )
+    return plan.id
+  }
+
+  /**
+   * Execute a stored plan
+   * The file must match the plan stored in this database and must not have
+   * been applied before. Accounts whose state drifted since planning are
+   * refused; everything else goes through the normal reclaim path.
+   */
+  async applyPlan(file: ReclaimPlanFile): Promise<ReclaimResult[]> {
+    // Hold the lock across the drift check so nothing closes in between
+    return leases.withLease(RECLAIM_LOCK, `apply plan #${file.id}`, () =>
+      this.applyLocked(file),
+    )
+  }
+
+  private async applyLocked(file: ReclaimPlanFile): Promise<ReclaimResult[]> {
+    if (file.version !== 1) {
+      throw new Error(`Unsupported plan version: ${file.version}`)
+    }
+
+    const stored = getPlan(file.id)
+    if (!stored) {
+      throw new Error(`Plan #${file.id} is not in this database`)
+    }
+    if (stored.status !== 'planned') {
+      throw new Error(`Plan #${file.id} cannot be applied (${stored.status})`)
+    }
+
+    const { id: _id, ...content } = file
+    if (JSON.stringify(content) !== stored.plan_json) {
+      throw new Error(
+        `Plan file does not match stored plan #${file.id}; was it edited?`,
+      )
+    }
+
+    if (file.rpcUrl !== getConfig().rpcUrl) {
+      logger.warn(`Plan was made against ${file.rpcUrl}`)
+    }
+
+    const detections = file.items.map((item) =>
+      deserializeDetection(item.detection),
+    )
+    const snapshot = await getMultipleAccountsSnapshot(
+      detections.map((d) => d.account.pubkey),
+    )
+
+    const outcomes: PlanItemResult[] = []
+    const drifted: ReclaimResult[] = []
+    const unchanged: DetectionResult[] = []
+
+    detections.forEach((detection, i) => {
+      const pubkey = detection.account.pubkey
+      const drift = describeDrift(
+        file.items[i].fingerprint,
+        fingerprintOf(pubkey, snapshot[i]),
+      )
+
+      if (drift) {
+        logger.warn(`Drifted ${shortenPubkey(pubkey)}: ${drift}`)
+        drifted.push(failedResult(pubkey, `State drifted since plan: ${drift}`))
+        outcomes.push({
+          pubkey: pubkey.toBase58(),
+          outcome: 'drifted',
+          error: drift,
+        })
+      } else {
+        unchanged.push(detection)
+      }
+    })
+
+    const results =
+      unchanged.length > 0
+        ? await reclaimer.batchReclaim(unchanged, {
+            dryRun: false,
+            maxAccounts: unchanged.length,
+            operatorId: file.operatorId ?? undefined,
+          })
+        : []
+
+    for (const result of results) {
+      outcomes.push({
+        pubkey: result.accountPubkey.toBase58(),
+        outcome: result.success ? 'closed' : 'failed',
+        amountReclaimed: result.amountReclaimed,
+        txSignature: result.txSignature,
+        error: result.error,
+      })
+    }
+
+    resolvePlan(file.id, 'applied', outcomes)
+    return [...drifted, ...results]
+  }
+}
+
+/**
+ * Reduce an account snapshot to the fields a plan depends on
+ */
+function fingerprintOf(
+  pubkey: PublicKey,
+  { info, slot }: AccountSnapshot,
+): StateFingerprint {
+  const tokenData = info ? decodeTokenAccount(pubkey, info) : null
+  return {
+    lamports: info?.lamports ?? 0,
+    amount: (tokenData?.amount ?? 0n).toString(),
+    slot,
+  }
+}
+
+/**
+ * Explain how an account changed since it was planned, if it did
+ */
+function describeDrift(
+  planned: StateFingerprint,
+  current: StateFingerprint,
+): string | null {
+  if (current.slot < planned.slot) {
+    return `RPC is behind the plan (slot ${current.slot} < ${planned.slot})`
+  }
+  if (current.lamports !== planned.lamports) {
+    return current.lamports === 0
+      ? 'account was closed'
+      : `lamports ${planned.lamports} -> ${current.lamports}`
+  }
+  if (current.amount !== planned.amount) {
+    return `token amount ${planned.amount} -> ${current.amount}`
+  }
+  return null
+}
+
+/**
+ * Rebuild a detection from its JSON form in a plan file
+ */
+function deserializeDetection(raw: Record<string, unknown>): DetectionResult {
+  const account = raw.account as Record<string, unknown>
+
+  const key = (value: unknown) =>
+    value ? new PublicKey(value as string) : undefined
+  const date = (value: unknown) =>
+    value ? new Date(value as string) : undefined
+
+  // Built field by field so no key or date is left in its JSON form
+  const tracked: TrackedAccount = {
+    id: account.id as number | undefined,
+    pubkey: new PublicKey(account.pubkey as string),
+    accountType: account.accountType as AccountType,
+    sponsorTx: account.sponsorTx as string | undefined,
+    payer: key(account.payer),
+    rentLamports: account.rentLamports as number,
+    owner: key(account.owner),
+    mint: key(account.mint),
+    programId: key(account.programId),
+    createdAt: new Date(account.createdAt as string),
+    lastCheckedAt: new Date(account.lastCheckedAt as string),
+    lastActivityAt: date(account.lastActivityAt),
+    activityCheckedAt: date(account.activityCheckedAt),
+    firstSeenReclaimableAt: date(account.firstSeenReclaimableAt),
+    status: account.status as AccountStatus,
+    operatorId: account.operatorId as number | undefined,
+  }
+
+  return {
+    account: tracked,
+    reason: raw.reason as ReclaimReason,
+    reclaimableLamports: raw.reclaimableLamports as number,
+    safe: raw.safe as boolean,
+    details: raw.details as string,
+    cooldownEndsAt: date(raw.cooldownEndsAt),
+  }
+}
+
+// Export singleton instance
+export const planner = new ReclaimPlanner()
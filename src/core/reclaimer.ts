@@ -1,18 +1,117 @@
 import { PublicKey } from '@solana/web3.js'
 import { getConfig } from '../config.js'
 import {
-  addReclaimHistory,
+  getTrackedAccount,
   isAccountProtected,
+  updateAccountState,
   updateAccountStatus,
 } from '../db/accounts.js'
 import {
-  closeTokenAccount,
-  getOperatorKeypair,
+  addPendingJournalEntries,
+  confirmJournalEntries,
+  getPendingJournalEntries,
+  hasPendingJournalEntries,
+  resolveJournalEntries,
+} from '../db/journal.js'
+import { getDefaultOperator, getOperatorById } from '../db/operators.js'
+import { addSimulationRecord } from '../db/simulations.js'
+import {
+  CloseTarget,
+  ComputeBudget,
+  SignedTransaction,
+  TokenAccountData,
+  buildCloseTransaction,
+  closeTokenAccounts,
+  decodeTokenAccount,
+  getBlockHeight,
+  getComputeBudget,
+  getCurrentNonce,
+  getMultipleAccountsInfo,
+  getSignatureStatuses,
   getTokenAccountData,
+  packCloseTargets,
+  priorityFeeLamports,
+  simulateWithComputeBudget,
 } from '../services/solana.js'
-import { formatSol, shortenPubkey } from '../utils/helpers.js'
+import { Signer, getSigner } from '../services/signer.js'
+import {
+  chunk,
+  cooldownRemainingMs,
+  formatDuration,
+  formatSol,
+  shortenPubkey,
+  sleep,
+} from '../utils/helpers.js'
 import { logger } from '../utils/logger.js'
-import type { DetectionResult, ReclaimOptions, ReclaimResult } from './types.js'
+import { clusterGuard } from './cluster.js'
+import { LeaseLostError, RECLAIM_LOCK, leases } from './lock.js'
+import type {
+  DetectionResult,
+  EventOrigin,
+  JournalEntry,
+  JournalStatus,
+  ReclaimOptions,
+  ReclaimResult,
+  SimulationReport,
+} from './types.js'
+
+// Maximum signatures per getSignatureStatuses request
+const MAX_SIGNATURE_STATUSES = 256
+
+// Times a group is re-signed after its blockhash expires before giving up
+const MAX_SIGN_ATTEMPTS = 3
+
+// Attribution for account events unless ReclaimOptions gives one
+const RECLAIM_ORIGIN: EventOrigin = { source: 'reclaim' }
+
+/**
+ * An account that passed every pre-check and is ready to be closed
+ */
+interface ReclaimCandidate extends CloseTarget {
+  index: number
+  detection: DetectionResult
+  tokenData: TokenAccountData
+}
+
+/**
+ * Signer and treasury used to close one operator's accounts
+ */
+interface OperatorContext {
+  operatorId?: number
+  name?: string
+  signer: Signer
+  treasury: PublicKey
+}
+
+/**
+ * Raised when priority fees would eat too much of the rent being recovered
+ */
+class PriorityFeeCeilingError extends Error {
+  constructor(feeLamports: number, rentLamports: number, maxShare: number) {
+    super(
+      `Priority fee ${formatSol(feeLamports)} exceeds ${(maxShare * 100).toFixed(1)}% ` +
+        `of the ${formatSol(rentLamports)} being recovered. Run aborted.`,
+    )
+    this.name = 'PriorityFeeCeilingError'
+  }
+}
+
+/**
+ * Build a failed reclaim result
+ */
+export function failedResult(
+  accountPubkey: PublicKey,
+  error: string,
+): ReclaimResult {
+  return {
+    accountPubkey,
+    amountReclaimed: 0,
+    txSignature: '',
+    timestamp: new Date(),
+    success: false,
+    error,
+  }
+}
 
 /**
  * Reclaimer for executing rent reclaim transactions
@@ -26,6 +125,14 @@ export class RentReclaimer {
     return getConfig().dryRun
   }
 
+  private get cooldownHours(): number {
+    return getConfig().cooldownHours
+  }
+
+  private get maxPriorityFeeShare(): number {
+    return getConfig().maxPriorityFeeShare
+  }
+
   /**
    * Reclaim rent from a single token account
    */
@@ -34,6 +141,165 @@ export class RentReclaimer {
     options: ReclaimOptions = {},
   ): Promise<ReclaimResult> {
     const dryRun = options.dryRun ?? this.dryRunDefault
+
+    return this.locked(dryRun, 'reclaim account', async () => {
+      // Verify token balance is still 0
+      const tokenData = await getTokenAccountData(detection.account.pubkey)
+
+      const [result] = await this.processDetections(
+        [detection],
+        [tokenData],
+        dryRun,
+        options.origin ?? RECLAIM_ORIGIN,
+        options.operatorId,
+      )
+      return result
+    })
+  }
+
+  /**
+   * Batch reclaim from multiple accounts
+   * Closes are packed into as few transactions as fit in a packet.
+   */
+  async batchReclaim(
+    detections: DetectionResult[],
+    options: ReclaimOptions = {},
+  ): Promise<ReclaimResult[]> {
+    const dryRun = options.dryRun ?? this.dryRunDefault
+    return this.locked(dryRun, 'batch reclaim', () =>
+      this.runBatch(detections, options, dryRun),
+    )
+  }
+
+  /**
+   * Check the cluster and hold the reclaim lock for anything that may send
+   * transactions
+   */
+  private async locked<T>(
+    dryRun: boolean,
+    purpose: string,
+    fn: () => Promise<T>,
+  ): Promise<T> {
+    if (dryRun) return fn()
+
+    await clusterGuard.assertCanSend()
+    return leases.withLease(RECLAIM_LOCK, purpose, fn)
+  }
+
+  /**
+   * Re-verify, close and summarize a batch
+   */
+  private async runBatch(
+    detections: DetectionResult[],
+    options: ReclaimOptions,
+    dryRun: boolean,
+  ): Promise<ReclaimResult[]> {
+    const maxAccounts = options.maxAccounts ?? detections.length
+    const toProcess = detections.slice(0, maxAccounts)
+
+    // Settle any closes left in flight by a previous run before starting
+    if (hasPendingJournalEntries()) {
+      await this.recoverPendingReclaims()
+    }
+
+    logger.info(`Processing ${toProcess.length} accounts for reclaim...`)
+    logger.divider()
+
+    // Re-verify current state of every account in batched requests
+    const pubkeys = toProcess.map((d) => d.account.pubkey)
+    const infos = await getMultipleAccountsInfo(pubkeys)
+    const tokenDatas = infos.map((info, i) =>
+      info ? decodeTokenAccount(pubkeys[i], info) : null,
+    )
+
+    const results = await this.processDetections(
+      toProcess,
+      tokenDatas,
+      dryRun,
+      options.origin ?? RECLAIM_ORIGIN,
+      options.operatorId,
+    )
+
+    // Summary
+    const successful = results.filter((r) => r.success)
+    const totalReclaimed = successful.reduce(
+      (sum, r) => sum + r.amountReclaimed,
+      0,
+    )
+    const transactions = new Set(
+      successful
+        .map((r) => r.txSignature)
+        .filter((sig) => sig && sig !== 'DRY_RUN'),
+    )
+
+    logger.divider()
+    logger.info(`Reclaim complete:`)
+    logger.info(`  - Successful: ${successful.length}/${results.length}`)
+    logger.info(
+      `  - Blocked in simulation: ${results.filter((r) => r.retryable === false).length}`,
+    )
+    logger.info(`  - Transactions: ${transactions.size}`)
+    logger.info(`  - Total reclaimed: ${formatSol(totalReclaimed)}`)
+
+    return results
+  }
+
+  /**
+   * Run pre-checks on every detection, then close the survivors
+   * Results are returned in the same order as the detections.
+   */
+  private async processDetections(
+    detections: DetectionResult[],
+    tokenDatas: (TokenAccountData | null)[],
+    dryRun: boolean,
+    origin: EventOrigin,
+    operatorId?: number,
+  ): Promise<ReclaimResult[]> {
+    const results: ReclaimResult[] = new Array(detections.length)
+    const candidates: ReclaimCandidate[] = []
+
+    detections.forEach((detection, index) => {
+      const tokenData = tokenDatas[index]
+      const rejection = this.precheck(detection, tokenData, dryRun, origin)
+
+      if (rejection) {
+        results[index] = rejection
+      } else if (tokenData) {
+        candidates.push({
+          index,
+          detection,
+          tokenData,
+          pubkey: detection.account.pubkey,
+          programId: tokenData.programId,
+        })
+      }
+    })
+
+    if (candidates.length > 0) {
+      const defaultOperatorId = operatorId ?? getDefaultOperator()?.id
+      for (const { index, result } of await this.executeCandidates(
+        candidates,
+        origin,
+        defaultOperatorId,
+      )) {
+        results[index] = result
+      }
+    }
+
+    return results
+  }
+
+  /**
+   * Safety checks before closing an account
+   * Returns a final result if the account must not be closed (or in dry-run),
+   * or null when it is ready to be closed.
+   */
+  precheck(
+    detection: DetectionResult,
+    tokenData: TokenAccountData | null,
+    dryRun: boolean,
+    origin: EventOrigin = RECLAIM_ORIGIN,
+  ): ReclaimResult | null {
     const accountPubkey = detection.account.pubkey
 
     // Safety checks
@@ -41,25 +307,14 @@ export class RentReclaimer {
       logger.warn(
         `Account ${shortenPubkey(accountPubkey)} is not safe to reclaim. Reason: ${detection.details}`,
       )
-      return {
+      return failedResult(
         accountPubkey,
-        amountReclaimed: 0,
-        txSignature: '',
-        timestamp: new Date(),
-        success: false,
-        error: 'Account marked as unsafe for automatic reclaim',
-      }
+        'Account marked as unsafe for automatic reclaim',
+      )
     }
 
     if (isAccountProtected(accountPubkey)) {
-      return {
-        accountPubkey,
-        amountReclaimed: 0,
-        txSignature: '',
-        timestamp: new Date(),
-        success: false,
-        error: 'Account is protected',
-      }
+      return failedResult(accountPubkey, 'Account is protected')
     }
 
     // Only token accounts can be closed via this method
@@ -67,21 +322,15 @@ export class RentReclaimer {
       detection.account.accountType !== 'token_account' &&
       detection.account.accountType !== 'ata'
     ) {
-      return {
+      return failedResult(
         accountPubkey,
-        amountReclaimed: 0,
-        txSignature: '',
-        timestamp: new Date(),
-        success: false,
-        error: `Cannot reclaim non-token account type: ${detection.account.accountType}`,
-      }
+        `Cannot reclaim non-token account type: ${detection.account.accountType}`,
+      )
     }
 
-    // Verify token balance is still 0
-    const tokenData = await getTokenAccountData(accountPubkey)
     if (!tokenData) {
       // Account already closed
-      updateAccountStatus(accountPubkey, 'reclaimed')
+      updateAccountStatus(accountPubkey, 'reclaimed', origin)
       return {
         accountPubkey,
         amountReclaimed: 0,
@@ -93,14 +342,32 @@ export class RentReclaimer {
     }
 
     if (tokenData.amount > 0n) {
-      return {
+      return failedResult(
         accountPubkey,
-        amountReclaimed: 0,
-        txSignature: '',
-        timestamp: new Date(),
-        success: false,
-        error: `Token account has non-zero balance: ${tokenData.amount}`,
-      }
+        `Token account has non-zero balance: ${tokenData.amount}`,
+      )
+    }
+
+    // Account must have been observed empty for the full cooldown window
+    const tracked = getTrackedAccount(accountPubkey)
+    if (!tracked?.firstSeenReclaimableAt) {
+      // First time we see it empty: start the cooldown clock
+      updateAccountState(accountPubkey, { status: 'reclaimable' }, origin)
+    }
+    const cooldownMs = cooldownRemainingMs(
+      tracked?.firstSeenReclaimableAt,
+      this.cooldownHours,
+    )
+    if (cooldownMs > 0) {
+      return failedResult(
+        accountPubkey,
+        `Cooldown active: ${formatDuration(cooldownMs)} remaining`,
+      )
+    }
+
+    // Token-2022 extensions (e.g. withheld transfer fees) can block closing
+    if (tokenData.closeBlocker) {
+      return failedResult(accountPubkey, tokenData.closeBlocker)
     }
 
     // Dry run mode - just log what would happen
@@ -117,108 +384,476 @@ export class RentReclaimer {
       }
     }
 
-    // Execute the close transaction
-    try {
-      const operator = getOperatorKeypair()
+    return null
+  }
+
+  /**
+   * Close candidates in packed multi-close transactions
+   * Each operator's accounts are closed with its own key into its own treasury.
+   */
+  private async executeCandidates(
+    candidates: ReclaimCandidate[],
+    origin: EventOrigin,
+    defaultOperatorId?: number,
+  ): Promise<{ index: number; result: ReclaimResult }[]> {
+    const outcomes: { index: number; result: ReclaimResult }[] = []
+    const failAll = (group: ReclaimCandidate[], errorMsg: string) => {
+      for (const candidate of group) {
+        outcomes.push({
+          index: candidate.index,
+          result: failedResult(candidate.pubkey, errorMsg),
+        })
+      }
+    }
+
+    const byOperator = new Map<number | undefined, ReclaimCandidate[]>()
+    for (const candidate of candidates) {
+      const operatorId =
+        candidate.detection.account.operatorId ?? defaultOperatorId
+      byOperator.set(operatorId, [
+        ...(byOperator.get(operatorId) ?? []),
+        candidate,
+      ])
+    }
+
+    let abortReason: string | undefined
+
+    for (const [operatorId, operatorCandidates] of byOperator) {
+      if (abortReason) {
+        failAll(operatorCandidates, abortReason)
+        continue
+      }
+
+      let operator: OperatorContext
+      try {
+        operator = await this.resolveOperator(operatorId)
+      } catch (error) {
+        failAll(
+          operatorCandidates,
+          error instanceof Error ? error.message : String(error),
+        )
+        continue
+      }
+
+      const owned: ReclaimCandidate[] = []
 
       // Verify operator is the token account owner
-      if (!tokenData.owner.equals(operator.publicKey)) {
-        return {
-          accountPubkey,
-          amountReclaimed: 0,
-          txSignature: '',
-          timestamp: new Date(),
-          success: false,
-          error: `Operator is not the account owner. Owner: ${tokenData.owner.toBase58()}`,
+      for (const candidate of operatorCandidates) {
+        if (candidate.tokenData.owner.equals(operator.signer.publicKey)) {
+          owned.push(candidate)
+        } else {
+          failAll(
+            [candidate],
+            `Operator is not the account owner. Owner: ${candidate.tokenData.owner.toBase58()}`,
+          )
         }
       }
 
-      const txSignature = await closeTokenAccount(
-        accountPubkey,
-        this.treasuryAddress,
-        operator,
+      const groups = packCloseTargets(
+        owned,
+        operator.treasury,
+        operator.signer.publicKey,
       )
+      if (groups.length > 0) {
+        logger.info(
+          `Packed ${owned.length} accounts into ${groups.length} transactions` +
+            (operator.name ? ` for operator ${operator.name}` : ''),
+        )
+      }
 
-      // Update database
-      updateAccountStatus(accountPubkey, 'reclaimed')
-      addReclaimHistory(
-        accountPubkey,
-        tokenData.lamports,
-        txSignature,
-        detection.reason,
+      for (let i = 0; i < groups.length; i++) {
+        logger.info(
+          `[${i + 1}/${groups.length}] Closing ${groups[i].length} accounts...`,
+        )
+
+        try {
+          outcomes.push(
+            ...(await this.executeGroup(groups[i], operator, origin)),
+          )
+        } catch (error) {
+          if (!(error instanceof PriorityFeeCeilingError)) throw error
+
+          // Abort the rest of the run: fees are too high right now
+          logger.error(error.message)
+          abortReason = error.message
+          failAll(groups.slice(i).flat(), abortReason)
+          break
+        }
+
+        // Small delay between transactions to avoid rate limiting
+        if (i < groups.length - 1) {
+          await sleep(500)
+        }
+      }
+    }
+
+    return outcomes
+  }
+
+  /**
+   * Throw PriorityFeeCeilingError if the priority fee would eat more than
+   * MAX_PRIORITY_FEE_SHARE of the rent being recovered
+   */
+  checkFeeCeiling(budget: ComputeBudget, rentLamports: number): void {
+    const feeLamports = priorityFeeLamports(budget)
+
+    if (feeLamports > rentLamports * this.maxPriorityFeeShare) {
+      throw new PriorityFeeCeilingError(
+        feeLamports,
+        rentLamports,
+        this.maxPriorityFeeShare,
       )
+    }
+  }
 
-      logger.success(
-        `Reclaimed ${formatSol(tokenData.lamports)} from ${shortenPubkey(accountPubkey)}`,
+  /**
+   * Treasury for an operator, or the configured one
+   */
+  treasuryFor(operatorId?: number): PublicKey {
+    if (operatorId === undefined) return this.treasuryAddress
+
+    const operator = getOperatorById(operatorId)
+    if (!operator) {
+      throw new Error(`Operator not found: ID ${operatorId}`)
+    }
+    return operator.treasury_address
+  }
+
+  /**
+   * Resolve the signer and treasury used to close an operator's accounts
+   * Accounts without a registered operator use the global configuration.
+   */
+  private async resolveOperator(operatorId?: number): Promise<OperatorContext> {
+    if (operatorId === undefined) {
+      return { signer: await getSigner(), treasury: this.treasuryAddress }
+    }
+
+    const operator = getOperatorById(operatorId)
+    if (!operator) {
+      throw new Error(`Operator not found: ID ${operatorId}`)
+    }
+
+    return {
+      operatorId: operator.id,
+      name: operator.name,
+      signer: await getSigner(operator.keypair_path),
+      treasury: operator.treasury_address,
+    }
+  }
+
+  /**
+   * Close one packed group of accounts
+   * If the group fails simulation, it is split in half until the failing
+   * account is isolated, so one bad account does not sink the others.
+   * Throws PriorityFeeCeilingError if fees are too high to be worth it.
+   */
+  private async executeGroup(
+    group: ReclaimCandidate[],
+    operator: OperatorContext,
+    origin: EventOrigin,
+  ): Promise<{ index: number; result: ReclaimResult }[]> {
+    let signed: SignedTransaction | undefined
+    let simulation: SimulationReport | undefined
+
+    try {
+      const rentLamports = group.reduce(
+        (sum, c) => sum + c.tokenData.lamports,
+        0,
       )
+      const estimate = await getComputeBudget(group)
+      this.checkFeeCeiling(estimate, rentLamports)
 
-      return {
-        accountPubkey,
-        amountReclaimed: tokenData.lamports,
-        txSignature,
-        timestamp: new Date(),
-        success: true,
+      // Simulate before paying for a transaction that cannot succeed
+      const simulated = await simulateWithComputeBudget(
+        (budget) =>
+          buildCloseTransaction(
+            group,
+            operator.treasury,
+            operator.signer.publicKey,
+            budget,
+          ),
+        estimate,
+      )
+      simulation = simulated.simulation
+      const budget = simulated.budget
+      // A raised compute limit costs more in priority fees
+      this.checkFeeCeiling(budget, rentLamports)
+      addSimulationRecord(
+        group.map((c) => c.pubkey),
+        simulation,
+      )
+
+      if (!simulation.success) {
+        if (group.length > 1) {
+          logger.debug(
+            `Batch of ${group.length} failed simulation, splitting: ${simulation.error}`,
+          )
+          const mid = Math.ceil(group.length / 2)
+          return [
+            ...(await this.executeGroup(group.slice(0, mid), operator, origin)),
+            ...(await this.executeGroup(group.slice(mid), operator, origin)),
+          ]
+        }
+
+        // A single account that cannot be closed: retrying won't help
+        const [{ index, pubkey }] = group
+        const errorMsg = `Simulation failed (${simulation.errorCode}): ${simulation.error}`
+        logger.error(`Failed to reclaim ${shortenPubkey(pubkey)}:`, errorMsg)
+
+        return [
+          {
+            index,
+            result: {
+              ...failedResult(pubkey, errorMsg),
+              errorCode: simulation.errorCode,
+              retryable: false,
+              simulation,
+            },
+          },
+        ]
+      }
+
+      for (let attempt = 1; ; attempt++) {
+        leases.assertHeld(RECLAIM_LOCK)
+        const outcome = await closeTokenAccounts(
+          group,
+          operator.treasury,
+          operator.signer,
+          budget,
+          (signedTx) => {
+            signed = signedTx
+            // Journal before broadcast so a crash can't lose the close
+            addPendingJournalEntries(
+              signedTx.signature,
+              signedTx.blockhash,
+              signedTx.lastValidBlockHeight,
+              group.map((c) => ({
+                pubkey: c.pubkey,
+                lamports: c.tokenData.lamports,
+                reason: c.detection.reason,
+                operatorId: operator.operatorId,
+              })),
+              signedTx.nonceAccount,
+            )
+          },
+        )
+
+        if (outcome.status === 'confirmed') {
+          confirmJournalEntries(outcome.signature, {
+            ...origin,
+            slot: outcome.slot,
+          })
+          return this.successResults(group, outcome.signature, simulation)
+        }
+
+        if (outcome.status === 'failed') {
+          resolveJournalEntries(outcome.signature, 'failed', outcome.error)
+          return this.failedGroup(group, outcome.error)
+        }
+
+        // Expired without landing: safe to re-sign with a fresh blockhash
+        resolveJournalEntries(outcome.signature, 'expired')
+        if (attempt >= MAX_SIGN_ATTEMPTS) {
+          return this.failedGroup(
+            group,
+            `Transaction expired ${attempt} times without confirming`,
+          )
+        }
+        logger.warn(
+          `Transaction ${shortenPubkey(outcome.signature)} expired, re-signing ` +
+            `(attempt ${attempt + 1}/${MAX_SIGN_ATTEMPTS})`,
+        )
       }
     } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : String(error)
+      if (
+        error instanceof PriorityFeeCeilingError ||
+        error instanceof LeaseLostError
+      ) {
+        throw error
+      }
+
+      let errorMsg = error instanceof Error ? error.message : String(error)
+
+      // The transaction may still have landed: check before reporting failure
+      if (signed) {
+        const status = await this.resolveSignatures([signed]).catch(
+          () => undefined,
+        )
+        const outcome = status?.get(signed.signature)
+
+        if (outcome === 'confirmed') {
+          return this.successResults(group, signed.signature, simulation)
+        }
+        if (outcome === 'pending') {
+          errorMsg += ` (outcome unknown, pending in journal as ${signed.signature})`
+        }
+      }
+
+      return this.failedGroup(group, errorMsg)
+    }
+  }
+
+  /**
+   * Build failed results for every account in a group
+   */
+  private failedGroup(
+    group: ReclaimCandidate[],
+    errorMsg: string,
+  ): { index: number; result: ReclaimResult }[] {
+    return group.map((candidate) => {
       logger.error(
-        `Failed to reclaim ${shortenPubkey(accountPubkey)}:`,
+        `Failed to reclaim ${shortenPubkey(candidate.pubkey)}:`,
         errorMsg,
       )
 
       return {
-        accountPubkey,
-        amountReclaimed: 0,
-        txSignature: '',
-        timestamp: new Date(),
-        success: false,
-        error: errorMsg,
+        index: candidate.index,
+        result: failedResult(candidate.pubkey, errorMsg),
       }
-    }
+    })
   }
 
   /**
-   * Batch reclaim from multiple accounts
+   * Build results for a group whose close was confirmed and journaled
    */
-  async batchReclaim(
-    detections: DetectionResult[],
-    options: ReclaimOptions = {},
-  ): Promise<ReclaimResult[]> {
-    const maxAccounts = options.maxAccounts ?? detections.length
-    const toProcess = detections.slice(0, maxAccounts)
-    const results: ReclaimResult[] = []
+  private successResults(
+    group: ReclaimCandidate[],
+    txSignature: string,
+    simulation?: SimulationReport,
+  ): { index: number; result: ReclaimResult }[] {
+    return group.map(({ index, pubkey, tokenData }) => {
+      logger.success(
+        `Reclaimed ${formatSol(tokenData.lamports)} from ${shortenPubkey(pubkey)}`,
+      )
 
-    logger.info(`Processing ${toProcess.length} accounts for reclaim...`)
-    logger.divider()
+      return {
+        index,
+        result: {
+          accountPubkey: pubkey,
+          amountReclaimed: tokenData.lamports,
+          txSignature,
+          timestamp: new Date(),
+          success: true,
+          simulation,
+        },
+      }
+    })
+  }
 
-    for (let i = 0; i < toProcess.length; i++) {
-      const detection = toProcess[i]
-      logger.info(
-        `[${i + 1}/${toProcess.length}] Processing ${shortenPubkey(detection.account.pubkey)}...`,
-      )
+  /**
+   * Resolve journal entries left pending by an interrupted run
+   * Closes that landed are written to reclaim_history; closes whose
+   * blockhash expired, or whose durable nonce was advanced, without landing
+   * are marked expired.
+   */
+  async recoverPendingReclaims(): Promise<Record<JournalStatus, number>> {
+    // Statuses from another cluster would mark every close expired
+    await clusterGuard.verify()
+    return leases.withLease(RECLAIM_LOCK, 'journal recovery', () =>
+      this.resolvePendingEntries(),
+    )
+  }
 
-      const result = await this.reclaimTokenAccount(detection, options)
-      results.push(result)
+  /**
+   * Resolve every pending journal entry; the caller holds the lock
+   */
+  private async resolvePendingEntries(): Promise<
+    Record<JournalStatus, number>
+  > {
+    const counts: Record<JournalStatus, number> = {
+      pending: 0,
+      confirmed: 0,
+      expired: 0,
+      failed: 0,
+    }
 
-      // Small delay between transactions to avoid rate limiting
-      if (i < toProcess.length - 1 && result.success && !options.dryRun) {
-        await new Promise((resolve) => setTimeout(resolve, 500))
-      }
+    const entries = getPendingJournalEntries()
+    if (entries.length === 0) {
+      return counts
     }
 
-    // Summary
-    const successful = results.filter((r) => r.success)
-    const totalReclaimed = successful.reduce(
-      (sum, r) => sum + r.amountReclaimed,
-      0,
+    logger.info(
+      `Resolving ${entries.length} pending reclaim journal entries...`,
     )
 
-    logger.divider()
-    logger.info(`Reclaim complete:`)
-    logger.info(`  - Successful: ${successful.length}/${results.length}`)
-    logger.info(`  - Total reclaimed: ${formatSol(totalReclaimed)}`)
+    const bySignature = new Map<string, JournalEntry>()
+    for (const entry of entries) {
+      bySignature.set(entry.txSignature, entry)
+    }
 
-    return results
+    const outcomes = await this.resolveSignatures(
+      [...bySignature.values()].map((entry) => ({
+        signature: entry.txSignature,
+        blockhash: entry.blockhash,
+        lastValidBlockHeight: entry.lastValidBlockHeight,
+        nonceAccount: entry.nonceAccount,
+      })),
+    )
+
+    for (const entry of entries) {
+      counts[outcomes.get(entry.txSignature) ?? 'pending']++
+    }
+
+    logger.info(
+      `Journal recovery: ${counts.confirmed} confirmed, ${counts.expired} expired, ` +
+        `${counts.failed} failed, ${counts.pending} still pending`,
+    )
+
+    return counts
+  }
+
+  /**
+   * Check journaled signatures against the chain and record the outcome
+   */
+  private async resolveSignatures(
+    transactions: Omit<SignedTransaction, 'transaction'>[],
+  ): Promise<Map<string, JournalStatus>> {
+    const outcomes = new Map<string, JournalStatus>()
+
+    // Read block height and nonces first: if a signature is still unknown
+    // after this, and the height was already past its blockhash or its nonce
+    // already advanced, it can never land. All come from the send endpoint,
+    // whose view decides what can land.
+    const blockHeight = await getBlockHeight()
+    const nonces = new Map<string, string>()
+    for (const { nonceAccount } of transactions) {
+      if (nonceAccount && !nonces.has(nonceAccount.toBase58())) {
+        nonces.set(nonceAccount.toBase58(), await getCurrentNonce(nonceAccount))
+      }
+    }
+
+    for (const batch of chunk(transactions, MAX_SIGNATURE_STATUSES)) {
+      const statuses = await getSignatureStatuses(batch.map((t) => t.signature))
+
+      batch.forEach((signed, i) => {
+        const { signature, blockhash, nonceAccount } = signed
+        const status = statuses[i]
+        const unlandable = nonceAccount
+          ? nonces.get(nonceAccount.toBase58()) !== blockhash
+          : blockHeight > signed.lastValidBlockHeight
+
+        if (status?.err) {
+          resolveJournalEntries(signature, 'failed', JSON.stringify(status.err))
+          outcomes.set(signature, 'failed')
+        } else if (
+          status?.confirmationStatus === 'confirmed' ||
+          status?.confirmationStatus === 'finalized'
+        ) {
+          confirmJournalEntries(signature, {
+            ...RECLAIM_ORIGIN,
+            slot: status.slot,
+          })
+          outcomes.set(signature, 'confirmed')
+        } else if (!status && unlandable) {
+          resolveJournalEntries(signature, 'expired')
+          outcomes.set(signature, 'expired')
+        } else {
+          outcomes.set(signature, 'pending')
+        }
+      })
+    }
+
+    return outcomes
   }
 
   /**
@@ -0,0 +1,125 @@
+import { getJob, recordJobRun, registerJob } from '../db/jobs.js'
+import { CronSchedule, parseCron } from '../utils/cron.js'
+import { formatDuration } from '../utils/helpers.js'
+import { logger } from '../utils/logger.js'
+
+/**
+ * A recurring job; `run` resolves to a one-line summary of what it did
+ */
+export interface ScheduledJob {
+  name: string
+  schedule: CronSchedule
+  run(): Promise<string>
+}
+
+// Re-check due jobs at least this often, so clock jumps are noticed
+const MAX_SLEEP_MS = 60_000
+
+/**
+ * Runs cron-scheduled jobs one at a time
+ * Next-run times live in the database, so a restart resumes the schedule
+ * and runs anything that came due while the process was down (once).
+ * Jobs due together run in the order they were added.
+ */
+export class JobScheduler {
+  private jobs: ScheduledJob[] = []
+  private timer: NodeJS.Timeout | null = null
+  private current: Promise<void> | null = null
+  private running = false
+
+  /**
+   * Add a job with a cron expression
+   */
+  add(name: string, expression: string, run: () => Promise<string>): void {
+    const schedule = parseCron(expression)
+    const job = registerJob(name, expression, schedule.next(new Date()))
+    this.jobs.push({ name, schedule, run })
+
+    logger.info(
+      `Scheduled ${name} (${expression}), next run ${new Date(job.next_run_at!).toLocaleString()}`,
+    )
+  }
+
+  /**
+   * Start running jobs as they come due
+   */
+  start(): void {
+    if (this.running) return
+    this.running = true
+    this.wake()
+  }
+
+  /**
+   * Stop scheduling and wait for a job in progress to finish
+   */
+  async stop(): Promise<void> {
+    this.running = false
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+    await this.current
+  }
+
+  private wake(): void {
+    if (!this.running) return
+
+    this.current = this.runDueJobs().finally(() => {
+      this.current = null
+      if (!this.running) return
+      this.timer = setTimeout(() => this.wake(), this.msUntilNextRun())
+    })
+  }
+
+  private msUntilNextRun(): number {
+    const now = Date.now()
+    const nextTimes = this.jobs.map((job) =>
+      new Date(getJob(job.name)?.next_run_at ?? now).getTime(),
+    )
+    const wait = Math.min(...nextTimes) - now
+    return Math.max(0, Math.min(wait, MAX_SLEEP_MS))
+  }
+
+  private async runDueJobs(): Promise<void> {
+    for (const job of this.jobs) {
+      if (!this.running) return
+
+      const nextRunAt = getJob(job.name)?.next_run_at
+      if (nextRunAt && new Date(nextRunAt).getTime() > Date.now()) continue
+
+      await this.runJob(job)
+    }
+  }
+
+  private async runJob(job: ScheduledJob): Promise<void> {
+    const startedAt = new Date()
+    logger.info(`▶ ${job.name} started`)
+
+    let status: 'success' | 'failed' = 'success'
+    let result: string
+    try {
+      result = await job.run()
+      logger.success(`${job.name}: ${result}`)
+    } catch (error) {
+      status = 'failed'
+      result = error instanceof Error ? error.message : String(error)
+      logger.error(`${job.name} failed: ${result}`)
+    }
+
+    const durationMs = Date.now() - startedAt.getTime()
+    const nextRunAt = job.schedule.next(new Date())
+    recordJobRun(job.name, {
+      startedAt,
+      status,
+      result,
+      durationMs,
+      nextRunAt,
+    })
+    logger.debug(
+      `${job.name} took ${formatDuration(durationMs)}, next run ${nextRunAt.toLocaleString()}`,
+    )
+  }
+}
+
+// Export singleton instance
+export const scheduler = new JobScheduler()
@@ -23,13 +23,18 @@ export interface TrackedAccount {
   pubkey: PublicKey
   accountType: AccountType
   sponsorTx?: string
+  payer?: PublicKey // Who funded the rent, from the creating transaction
   rentLamports: number
   owner?: PublicKey
   mint?: PublicKey // For token accounts
+  programId?: PublicKey // Token program (SPL Token or Token-2022)
   createdAt: Date
   lastCheckedAt: Date
   lastActivityAt?: Date
+  activityCheckedAt?: Date // When signature history was last queried
+  firstSeenReclaimableAt?: Date // Start of the current empty streak (cooldown)
   status: AccountStatus
+  operatorId?: number // Registered operator that owns this account
 }
 
 /**
@@ -40,13 +45,18 @@ export interface TrackedAccountRow {
   pubkey: string
   account_type: string
   sponsor_tx: string | null
+  payer: string | null
   rent_lamports: number
   owner: string | null
   mint: string | null
+  program_id: string | null
   created_at: string
   last_checked_at: string
   last_activity_at: string | null
+  activity_checked_at: string | null
+  first_seen_reclaimable_at: string | null
   status: string
+  operator_id: number | null
 }
 
 /**
@@ -58,6 +68,29 @@ export interface DetectionResult {
   reclaimableLamports: number
   safe: boolean
   details: string
+  cooldownEndsAt?: Date // Set while the account is still inside the cooldown window
+}
+
+/**
+ * Why a close transaction failed pre-flight simulation
+ */
+export type SimulationErrorCode =
+  | 'account_frozen'
+  | 'authority_mismatch'
+  | 'extension_blocks_close'
+  | 'nonzero_balance'
+  | 'compute_exceeded'
+  | 'simulation_failed'
+
+/**
+ * Outcome of simulating a close transaction before sending it
+ */
+export interface SimulationReport {
+  success: boolean
+  logs: string[]
+  unitsConsumed?: number
+  error?: string
+  errorCode?: SimulationErrorCode
 }
 
 /**
@@ -70,6 +103,9 @@ export interface ReclaimResult {
   timestamp: Date
   success: boolean
   error?: string
+  errorCode?: SimulationErrorCode
+  retryable?: boolean // false when retrying cannot succeed without intervention
+  simulation?: SimulationReport
 }
 
 /**
@@ -82,6 +118,64 @@ export interface ReclaimHistoryRow {
   tx_signature: string
   reclaimed_at: string
   reason: string
+  operator_id: number | null
+}
+
+/**
+ * Database row for a recorded transaction simulation
+ */
+export interface SimulationRow {
+  id: number
+  accounts: string // comma-separated pubkeys
+  success: number
+  error: string | null
+  error_code: string | null
+  units_consumed: number | null
+  logs: string // newline-separated program logs
+  simulated_at: string
+}
+
+/**
+ * State of a journaled close transaction
+ */
+export type JournalStatus = 'pending' | 'confirmed' | 'expired' | 'failed'
+
+/**
+ * A close written to the reclaim journal before broadcast
+ */
+export interface JournalEntry {
+  id: number
+  txSignature: string
+  accountPubkey: PublicKey
+  amountLamports: number
+  reason: string
+  blockhash: string
+  lastValidBlockHeight: number
+  nonceAccount?: PublicKey // set when blockhash is a durable nonce
+  status: JournalStatus
+  error?: string
+  operatorId?: number
+  createdAt: Date
+  resolvedAt?: Date
+}
+
+/**
+ * Database row for the reclaim journal
+ */
+export interface ReclaimJournalRow {
+  id: number
+  tx_signature: string
+  account_pubkey: string
+  amount_lamports: number
+  reason: string
+  blockhash: string
+  last_valid_block_height: number
+  nonce_account: string | null
+  status: string
+  error: string | null
+  operator_id: number | null
+  created_at: string
+  resolved_at: string | null
 }
 
 /**
@@ -107,6 +201,17 @@ export interface ScanOptions {
   fromSignature?: string
   limit?: number
   accountType?: AccountType
+  operatorId?: number // Operator to stamp on discovered accounts
+  payer?: PublicKey // Only track accounts whose rent this address paid
+  origin?: EventOrigin // Attribution for account events (default: scan)
+}
+
+/**
+ * Outcome of scanning a list of transactions for sponsored accounts
+ */
+export interface SignatureScanResult {
+  tracked: TrackedAccount[] // Accounts tracked for the first time
+  failed: { signature: string; error: string }[] // Transactions that could not be loaded
 }
 
 /**
@@ -125,6 +230,235 @@ export interface ReclaimOptions {
   dryRun?: boolean
   maxAccounts?: number
   skipConfirmation?: boolean
+  operatorId?: number // Operator used for accounts not stamped with one
+  origin?: EventOrigin // Attribution for account events (default: reclaim)
+}
+
+/**
+ * One close transaction prepared for offline signing
+ * Addresses are base58 and the transaction is base64, so the file can be
+ * reviewed and carried to an air-gapped machine as plain JSON.
+ */
+export interface OfflineTransaction {
+  nonceAccount: string
+  nonce: string
+  summary: string
+  accounts: {
+    pubkey: string
+    mint: string
+    lamports: number
+    amount: string
+    reason: string
+  }[]
+  totalLamports: number
+  priorityFeeLamports: number
+  transaction: string
+}
+
+/**
+ * File exchanged between `reclaim --export-unsigned`, `sign` and `broadcast`
+ */
+export interface OfflineReclaimFile {
+  version: 1
+  status: 'unsigned' | 'signed'
+  createdAt: string
+  rpcUrl: string
+  authority: string
+  treasury: string
+  transactions: OfflineTransaction[]
+  totalLamports: number
+  totalSol: string
+}
+
+/**
+ * On-chain state of an account when it was planned
+ */
+export interface StateFingerprint {
+  lamports: number
+  amount: string // raw token amount (u64 as a decimal string)
+  slot: number // slot the state was read at
+}
+
+/**
+ * Lifecycle of a stored reclaim plan
+ * - planned: written by `vacuum plan`, waiting for `vacuum apply`
+ * - dry_run: recorded by a dry-run reclaim, never applied
+ * - applied: executed by `vacuum apply`
+ */
+export type PlanStatus = 'planned' | 'dry_run' | 'applied'
+
+/**
+ * What happened to one planned account
+ */
+export type PlanItemOutcome =
+  'planned' | 'would_close' | 'closed' | 'drifted' | 'skipped' | 'failed'
+
+/**
+ * A reclaim plan as written to disk by `vacuum plan`
+ * Detections are stored exactly as computed, with PublicKeys as base58
+ * and Dates as ISO strings.
+ */
+export interface ReclaimPlanFile {
+  version: 1
+  id: number
+  createdAt: string
+  rpcUrl: string
+  operatorId: number | null
+  totalLamports: number
+  totalSol: string
+  items: {
+    detection: Record<string, unknown>
+    fingerprint: StateFingerprint
+  }[]
+}
+
+/**
+ * Database row for a stored plan
+ */
+export interface ReclaimPlanRow {
+  id: number
+  status: string
+  operator_id: number | null
+  rpc_url: string
+  total_lamports: number
+  plan_json: string
+  created_at: string
+  applied_at: string | null
+}
+
+/**
+ * Database row for one account in a stored plan
+ */
+export interface ReclaimPlanItemRow {
+  id: number
+  plan_id: number
+  account_pubkey: string
+  reason: string
+  lamports: number
+  amount: string
+  slot: number
+  outcome: string
+  amount_reclaimed: number
+  tx_signature: string | null
+  error: string | null
+  resolved_at: string | null
+}
+
+/**
+ * Database row for a daemon job
+ */
+export interface ScheduledJobRow {
+  name: string
+  schedule: string
+  next_run_at: string | null
+  last_run_at: string | null
+  last_status: 'success' | 'failed' | null
+  last_result: string | null // summary on success, error on failure
+  last_duration_ms: number | null
+  run_count: number
+}
+
+/**
+ * Database row for a lease lock
+ */
+export interface LockRow {
+  name: string
+  holder: string // host:pid of the holding process
+  purpose: string | null
+  acquired_at: string
+  heartbeat_at: string
+  expires_at: string
+}
+
+/**
+ * Database row for a sponsor's scan cursor
+ * newest_signature bounds incremental scans; oldest_signature is where a
+ * backfill of older history would resume.
+ */
+export interface SponsorCursorRow {
+  sponsor: string
+  newest_signature: string | null
+  oldest_signature: string | null
+  history_complete: number // 1 once the start of history was reached
+  transactions_scanned: number
+  updated_at: string
+}
+
+/**
+ * Database row for a sponsor transaction a scan could not load
+ */
+export interface SponsorScanFailureRow {
+  sponsor: string
+  signature: string
+  attempts: number
+  last_error: string | null
+  first_failed_at: string
+}
+
+/**
+ * Cluster a database is bound to (single row)
+ */
+export interface ClusterBindingRow {
+  id: number
+  genesis_hash: string
+  cluster: string // mainnet-beta, devnet, testnet or unknown
+  rpc_url: string // endpoint it was first seen through
+  bound_at: string
+}
+
+/**
+ * What changed a tracked account
+ * scan, check, reclaim and watch are the jobs that observe and close
+ * accounts; cli, bot and api are changes asked for by a person or program.
+ */
+export type AccountEventSource =
+  'scan' | 'check' | 'reclaim' | 'watch' | 'cli' | 'bot' | 'api'
+
+/**
+ * Field an account event records a change of
+ */
+export type AccountEventKind = 'status' | 'lamports' | 'protection'
+
+/**
+ * Attribution for the account events a change writes
+ */
+export interface EventOrigin {
+  source: AccountEventSource
+  actor?: string // who asked: a Telegram user, or the local user by default
+  slot?: number // slot the new state was read at
+  detail?: string // e.g. the close transaction signature
+}
+
+/**
+ * One change to a tracked account, from the append-only event log
+ */
+export interface AccountEvent {
+  id: number
+  accountPubkey: PublicKey
+  kind: AccountEventKind
+  oldValue?: string // unset when the account was first tracked
+  newValue?: string
+  slot?: number
+  source: AccountEventSource
+  actor?: string
+  detail?: string
+  createdAt: Date
+}
+
+/**
+ * Database row for an account event
+ */
+export interface AccountEventRow {
+  id: number
+  account_pubkey: string
+  kind: string
+  old_value: string | null
+  new_value: string | null
+  slot: number | null
+  source: string
+  actor: string | null
+  detail: string | null
+  created_at: string
 }
 
 /**
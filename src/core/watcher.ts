@@ -0,0 +1,405 @@
+import { TOKEN_PROGRAM_ID } from '@solana/spl-token'
+import { AccountInfo, Connection, PublicKey } from '@solana/web3.js'
+import {
+  AccountStateUpdate,
+  addTrackedAccount,
+  getAllTrackedAccounts,
+  getTrackedAccount,
+  updateAccountState,
+} from '../db/accounts.js'
+import { hasPendingJournalEntry } from '../db/journal.js'
+import { getAllOperators, getOperatorById } from '../db/operators.js'
+import {
+  TOKEN_PROGRAM_IDS,
+  createSubscriptionConnection,
+  decodeTokenAccount,
+} from '../services/solana.js'
+import { getSigner } from '../services/signer.js'
+import { formatSol, shortenPubkey } from '../utils/helpers.js'
+import { logger } from '../utils/logger.js'
+import { detector } from './detector.js'
+import { monitor } from './monitor.js'
+import type { TrackedAccount } from './types.js'
+
+export interface WatchOptions {
+  /** Only watch this operator (default: every registered operator) */
+  operatorId?: number
+  /** Minutes between full resyncs over HTTP RPC */
+  resyncMinutes?: number
+}
+
+// Offset of the owner field in an SPL token account
+const TOKEN_OWNER_OFFSET = 32
+// Size of an SPL Token account (Token-2022 accounts vary with extensions)
+const TOKEN_ACCOUNT_SIZE = 165
+
+// The socket counts as dead after this long without a slot notification
+const STALE_SOCKET_MS = 60_000
+const WATCHDOG_INTERVAL_MS = 15_000
+const DEFAULT_RESYNC_MINUTES = 30
+
+/**
+ * Watches tracked accounts over WebSocket subscriptions
+ * Token accounts owned by an operator are followed with one program
+ * subscription per token program (filtered by owner), which also discovers
+ * new accounts. Every tracked account gets an account subscription, so a
+ * close is seen as soon as it lands. A slot subscription acts as a
+ * heartbeat: when it goes quiet the connection is rebuilt and everything is
+ * resubscribed. A periodic full resync catches anything missed in between.
+ */
+export class AccountWatcher {
+  private conn: Connection | null = null
+  private programSubscriptions: number[] = []
+  private accountSubscriptions = new Map<string, number>()
+  private slotSubscription: number | null = null
+  private owners: { owner: PublicKey; operatorId?: number }[] = []
+  private operatorId?: number
+
+  private lastSlotAt = 0
+  private needsResync = false
+  private resyncing: Promise<void> | null = null
+  private watchdog: NodeJS.Timeout | null = null
+  private resyncTimer: NodeJS.Timeout | null = null
+  private running = false
+
+  /**
+   * Subscribe and keep tracked_accounts current until stopped
+   */
+  async start(options: WatchOptions = {}): Promise<void> {
+    if (this.running) return
+    this.running = true
+    this.operatorId = options.operatorId
+    this.owners = await this.resolveOwners(options.operatorId)
+
+    this.subscribe()
+
+    this.watchdog = setInterval(() => {
+      if (Date.now() - this.lastSlotAt > STALE_SOCKET_MS) {
+        this.reconnect('no slot notifications').catch((error) =>
+          logger.error('Watch reconnect failed:', String(error)),
+        )
+      }
+    }, WATCHDOG_INTERVAL_MS)
+
+    const resyncMs =
+      (options.resyncMinutes ?? DEFAULT_RESYNC_MINUTES) * 60 * 1000
+    this.resyncTimer = setInterval(() => this.triggerResync(), resyncMs)
+  }
+
+  /**
+   * Unsubscribe everything and wait for a resync in progress
+   */
+  async stop(): Promise<void> {
+    this.running = false
+    if (this.watchdog) clearInterval(this.watchdog)
+    if (this.resyncTimer) clearInterval(this.resyncTimer)
+    this.watchdog = null
+    this.resyncTimer = null
+
+    await this.resyncing
+    await this.unsubscribe()
+    logger.info('Watch stopped')
+  }
+
+  /**
+   * Token account owners to watch: the chosen operator, every registered
+   * operator, or the configured signer when none are registered
+   */
+  private async resolveOwners(
+    operatorId?: number,
+  ): Promise<{ owner: PublicKey; operatorId?: number }[]> {
+    if (operatorId !== undefined) {
+      const operator = getOperatorById(operatorId)
+      if (!operator) {
+        throw new Error(`Operator not found: ID ${operatorId}`)
+      }
+      const signer = await getSigner(operator.keypair_path)
+      return [{ owner: signer.publicKey, operatorId }]
+    }
+
+    const operators = getAllOperators()
+    if (operators.length === 0) {
+      return [{ owner: (await getSigner()).publicKey }]
+    }
+
+    const owners: { owner: PublicKey; operatorId?: number }[] = []
+    for (const operator of operators) {
+      const signer = await getSigner(operator.keypair_path)
+      owners.push({ owner: signer.publicKey, operatorId: operator.id })
+    }
+    return owners
+  }
+
+  private subscribe(): void {
+    const conn = createSubscriptionConnection()
+    this.conn = conn
+    this.lastSlotAt = Date.now()
+
+    this.slotSubscription = conn.onSlotChange(() => {
+      this.lastSlotAt = Date.now()
+      // First heartbeat after a reconnect: catch up on what was missed
+      if (this.needsResync) {
+        this.needsResync = false
+        this.triggerResync()
+      }
+    })
+
+    for (const { owner, operatorId } of this.owners) {
+      for (const programId of TOKEN_PROGRAM_IDS) {
+        this.programSubscriptions.push(
+          conn.onProgramAccountChange(
+            programId,
+            ({ accountId, accountInfo }, { slot }) =>
+              this.handleChange(accountId, accountInfo, slot, operatorId),
+            {
+              commitment: 'confirmed',
+              filters: [
+                ...(programId.equals(TOKEN_PROGRAM_ID)
+                  ? [{ dataSize: TOKEN_ACCOUNT_SIZE }]
+                  : []),
+                {
+                  memcmp: {
+                    offset: TOKEN_OWNER_OFFSET,
+                    bytes: owner.toBase58(),
+                  },
+                },
+              ],
+            },
+          ),
+        )
+      }
+    }
+
+    this.syncAccountSubscriptions()
+    logger.info(
+      `Watching ${this.owners.length} operator(s) and ${this.accountSubscriptions.size} tracked accounts`,
+    )
+  }
+
+  private async unsubscribe(): Promise<void> {
+    const conn = this.conn
+    if (!conn) return
+    this.conn = null
+
+    // The socket may already be gone; removal is best effort
+    const removals: Promise<void>[] = [
+      ...this.programSubscriptions.map((id) =>
+        conn.removeProgramAccountChangeListener(id),
+      ),
+      ...[...this.accountSubscriptions.values()].map((id) =>
+        conn.removeAccountChangeListener(id),
+      ),
+    ]
+    if (this.slotSubscription !== null) {
+      removals.push(conn.removeSlotChangeListener(this.slotSubscription))
+    }
+    await Promise.allSettled(removals)
+
+    this.programSubscriptions = []
+    this.accountSubscriptions.clear()
+    this.slotSubscription = null
+  }
+
+  /**
+   * Drop the connection and subscribe again on a fresh one
+   */
+  private async reconnect(reason: string): Promise<void> {
+    if (!this.running) return
+    logger.warn(`Watch connection lost (${reason}), resubscribing...`)
+
+    await this.unsubscribe()
+    this.needsResync = true
+    this.subscribe()
+  }
+
+  /**
+   * Subscribe to tracked accounts not yet watched, and drop closed ones
+   */
+  private syncAccountSubscriptions(): void {
+    const conn = this.conn
+    if (!conn) return
+
+    const watched = getAllTrackedAccounts(this.operatorId).filter(
+      (account) => account.status !== 'reclaimed',
+    )
+    const keep = new Set(watched.map((account) => account.pubkey.toBase58()))
+
+    for (const [key, id] of this.accountSubscriptions) {
+      if (!keep.has(key)) {
+        conn.removeAccountChangeListener(id).catch(() => {})
+        this.accountSubscriptions.delete(key)
+      }
+    }
+
+    for (const account of watched) {
+      const key = account.pubkey.toBase58()
+      if (this.accountSubscriptions.has(key)) continue
+
+      this.accountSubscriptions.set(
+        key,
+        conn.onAccountChange(
+          account.pubkey,
+          (info, { slot }) => this.handleChange(account.pubkey, info, slot),
+          { commitment: 'confirmed' },
+        ),
+      )
+    }
+  }
+
+  /**
+   * Rescan and recheck everything over HTTP, one resync at a time
+   */
+  private triggerResync(): void {
+    if (this.resyncing || !this.running) return
+
+    this.resyncing = this.resync()
+      .catch((error) => logger.error('Watch resync failed:', String(error)))
+      .finally(() => {
+        this.resyncing = null
+      })
+  }
+
+  private async resync(): Promise<void> {
+    logger.info('Watch resync: rescanning operator accounts...')
+    for (const { operatorId } of this.owners) {
+      await monitor.scanOperatorAccounts({ operatorId })
+    }
+    await detector.findAllReclaimable(this.operatorId)
+    this.syncAccountSubscriptions()
+  }
+
+  /**
+   * Apply an account notification to tracked_accounts
+   */
+  private handleChange(
+    pubkey: PublicKey,
+    info: AccountInfo<Buffer>,
+    slot: number,
+    operatorId?: number,
+  ): void {
+    try {
+      const tracked = getTrackedAccount(pubkey)
+      if (!tracked) {
+        // Only program subscriptions report accounts we don't track yet
+        if (info.lamports > 0)
+          this.trackNewAccount(pubkey, info, slot, operatorId)
+        return
+      }
+
+      this.applyChange(tracked, info, slot)
+    } catch (error) {
+      logger.error(
+        `Failed to apply update for ${shortenPubkey(pubkey)}:`,
+        String(error),
+      )
+    }
+  }
+
+  private applyChange(
+    tracked: TrackedAccount,
+    info: AccountInfo<Buffer>,
+    slot: number,
+  ): void {
+    const pubkey = tracked.pubkey
+
+    if (info.lamports === 0) {
+      if (tracked.status === 'protected') {
+        // Protection is the operator's call, not the chain's
+        updateAccountState(
+          pubkey,
+          { rentLamports: 0 },
+          { source: 'watch', slot, detail: 'closed on chain while protected' },
+        )
+        this.unwatch(pubkey)
+        logger.warn(
+          `Protected account ${shortenPubkey(pubkey)} was closed on chain (slot ${slot})`,
+        )
+      } else if (tracked.status !== 'reclaimed') {
+        // Our own closes settle through the journal; anything else was
+        // closed by someone else and its rent went elsewhere
+        const detail = hasPendingJournalEntry(pubkey)
+          ? 'closed by a pending reclaim'
+          : 'closed externally'
+        updateAccountState(
+          pubkey,
+          { status: 'reclaimed', rentLamports: 0 },
+          { source: 'watch', slot, detail },
+        )
+        this.unwatch(pubkey)
+        logger.info(
+          `Closed: ${shortenPubkey(pubkey)}, ${detail} (slot ${slot})`,
+        )
+      }
+      return
+    }
+
+    const tokenData = decodeTokenAccount(pubkey, info)
+    const update: AccountStateUpdate = {
+      rentLamports: info.lamports,
+      lastActivityAt: new Date(),
+    }
+
+    if (tracked.status !== 'protected') {
+      if (tokenData) {
+        update.status = tokenData.amount === 0n ? 'reclaimable' : 'active'
+        update.programId = tokenData.programId
+      } else if (tracked.status === 'reclaimed') {
+        // Recreated at the same address
+        update.status = 'active'
+      }
+    }
+
+    updateAccountState(pubkey, update, { source: 'watch', slot })
+
+    if (update.status && update.status !== tracked.status) {
+      logger.info(
+        `${shortenPubkey(pubkey)}: ${tracked.status} -> ${update.status} (slot ${slot})`,
+      )
+    } else {
+      logger.debug(`Updated ${shortenPubkey(pubkey)} (slot ${slot})`)
+    }
+  }
+
+  private trackNewAccount(
+    pubkey: PublicKey,
+    info: AccountInfo<Buffer>,
+    slot: number,
+    operatorId?: number,
+  ): void {
+    const tokenData = decodeTokenAccount(pubkey, info)
+    if (!tokenData) return
+
+    addTrackedAccount(
+      {
+        pubkey,
+        accountType: 'token_account',
+        rentLamports: info.lamports,
+        owner: tokenData.owner,
+        mint: tokenData.mint,
+        programId: tokenData.programId,
+        createdAt: new Date(),
+        lastCheckedAt: new Date(),
+        status: tokenData.amount === 0n ? 'reclaimable' : 'active',
+        operatorId,
+      },
+      { source: 'watch', slot },
+    )
+    this.syncAccountSubscriptions()
+
+    logger.info(
+      `Now tracking: ${shortenPubkey(pubkey)} | Rent: ${formatSol(info.lamports)}`,
+    )
+  }
+
+  private unwatch(pubkey: PublicKey): void {
+    const key = pubkey.toBase58()
+    const id = this.accountSubscriptions.get(key)
+    if (id === undefined || !this.conn) return
+
+    this.conn.removeAccountChangeListener(id).catch(() => {})
+    this.accountSubscriptions.delete(key)
+  }
+}
+
+// Export singleton instance
+export const watcher = new AccountWatcher()
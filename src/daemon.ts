@@ -0,0 +1,180 @@
+import type { Server } from 'http'
+import { getConfig } from './config.js'
+import { clusterGuard } from './core/cluster.js'
+import { detector } from './core/detector.js'
+import { monitor } from './core/monitor.js'
+import { planner } from './core/planner.js'
+import { reclaimer } from './core/reclaimer.js'
+import { scheduler } from './core/scheduler.js'
+import { getAllOperators } from './db/operators.js'
+import { formatSol } from './utils/helpers.js'
+import { logger } from './utils/logger.js'
+
+export interface DaemonOptions {
+  scanSchedule?: string
+  checkSchedule?: string
+  reclaimSchedule?: string
+  maxAccounts?: number
+  /** Telegram bot token; the bot is not started without one */
+  botToken?: string
+  botChatId?: string
+  /** Dashboard port; the dashboard is not started without one */
+  dashboardPort?: number
+  /** Also follow accounts live over WebSocket */
+  watch?: boolean
+}
+
+/**
+ * A running daemon
+ */
+export interface Daemon {
+  /** Finish the job in progress, then stop the bot, dashboard and scheduler */
+  stop(): Promise<void>
+}
+
+/**
+ * Scan every registered operator (or the default operator if none), plus
+ * the Kora node's fee payers when KORA_NODE_URL is set
+ */
+async function runScan(): Promise<string> {
+  const operators = getAllOperators()
+  let found = 0
+
+  if (operators.length === 0) {
+    found = (await monitor.scanOperatorAccounts()).length
+  } else {
+    for (const operator of operators) {
+      found += (await monitor.scanOperatorAccounts({ operatorId: operator.id }))
+        .length
+    }
+  }
+
+  if (getConfig().koraNodeUrl) {
+    const sponsored = (await monitor.scanKoraSponsors()).length
+    return `found ${found} accounts, ${sponsored} new sponsored`
+  }
+  return `found ${found} accounts`
+}
+
+/**
+ * Re-check every tracked account for reclaimability
+ */
+async function runCheck(): Promise<string> {
+  const results = await detector.findAllReclaimable()
+  const safe = results.filter((r) => r.safe)
+  return `${results.length} reclaimable, ${safe.length} safe`
+}
+
+/**
+ * Reclaim safe accounts, honouring DRY_RUN
+ */
+async function runReclaim(
+  maxAccounts: number,
+  notify: boolean,
+): Promise<string> {
+  const { dryRun } = getConfig()
+  const toReclaim = (await detector.findSafeReclaimable()).slice(0, maxAccounts)
+  if (toReclaim.length === 0) return 'nothing to reclaim'
+
+  const results = await reclaimer.batchReclaim(toReclaim, {
+    dryRun,
+    maxAccounts,
+  })
+  const successful = results.filter((r) => r.success)
+  const total = successful.reduce((sum, r) => sum + r.amountReclaimed, 0)
+
+  if (dryRun) {
+    const planId = await planner.recordDryRun(toReclaim, results)
+    return `[DRY RUN] would reclaim ${formatSol(total)} from ${successful.length} accounts (plan #${planId})`
+  }
+
+  if (notify && successful.length > 0) {
+    const { sendReclaimAlert } = await import('./services/telegram.js')
+    await sendReclaimAlert(
+      total,
+      successful.length,
+      successful.map((r) => r.txSignature).filter(Boolean),
+    )
+  }
+  return `reclaimed ${formatSol(total)} from ${successful.length}/${results.length} accounts`
+}
+
+/**
+ * Start the daemon: scheduled jobs plus, optionally, the Telegram bot and
+ * dashboard, sharing one database connection in one process
+ */
+export async function startDaemon(
+  options: DaemonOptions = {},
+): Promise<Daemon> {
+  const config = getConfig()
+  const reclaimSchedule = options.reclaimSchedule ?? config.reclaimSchedule
+
+  // Fail now rather than at the first scheduled reclaim
+  if (reclaimSchedule.trim() && !config.dryRun) {
+    await clusterGuard.assertCanSend()
+  }
+
+  const schedules: [string, string, () => Promise<string>][] = [
+    ['scan', options.scanSchedule ?? config.scanSchedule, runScan],
+    ['check', options.checkSchedule ?? config.checkSchedule, runCheck],
+    [
+      'reclaim',
+      reclaimSchedule,
+      () => runReclaim(options.maxAccounts ?? 10, !!options.botToken),
+    ],
+  ]
+
+  for (const [name, expression, run] of schedules) {
+    if (expression.trim()) {
+      scheduler.add(name, expression, run)
+    } else {
+      logger.info(`Job ${name} disabled`)
+    }
+  }
+
+  let server: Server | undefined
+  if (options.dashboardPort) {
+    process.env.DASHBOARD_PORT = String(options.dashboardPort)
+    const { startDashboardServer } = await import('./server/index.js')
+    server = startDashboardServer()
+  }
+
+  if (options.botToken) {
+    const { launchBot } = await import('./services/telegram.js')
+    launchBot(options.botToken, options.botChatId)
+  }
+
+  if (options.watch) {
+    const { watcher } = await import('./core/watcher.js')
+    await watcher.start()
+  }
+
+  if (config.dryRun) {
+    logger.warn('DRY_RUN is on: scheduled reclaims only record plans')
+  }
+  scheduler.start()
+
+  return {
+    async stop() {
+      logger.info('Shutting down: waiting for the current job to finish...')
+      await scheduler.stop()
+
+      if (options.watch) {
+        const { watcher } = await import('./core/watcher.js')
+        await watcher.stop()
+      }
+
+      if (options.botToken) {
+        const { stopBot } = await import('./services/telegram.js')
+        stopBot()
+      }
+      if (server) {
+        await new Promise<void>((resolve) => {
+          server!.close(() => resolve())
+          server!.closeIdleConnections()
+        })
+      }
+      logger.info('Daemon stopped')
+    },
+  }
+}
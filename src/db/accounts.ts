@@ -2,11 +2,13 @@ import { PublicKey } from '@solana/web3.js'
 import type {
   AccountStatus,
   AccountType,
+  EventOrigin,
   ProtectionEntry,
   ReclaimHistoryRow,
   TrackedAccount,
   TrackedAccountRow,
 } from '../core/types.js'
+import { addAccountEvent, withAccountEvents } from './events.js'
 import { getDatabase } from './index.js'
 
 /**
@@ -18,45 +20,78 @@ function rowToAccount(row: TrackedAccountRow): TrackedAccount {
     pubkey: new PublicKey(row.pubkey),
     accountType: row.account_type as AccountType,
     sponsorTx: row.sponsor_tx || undefined,
+    payer: row.payer ? new PublicKey(row.payer) : undefined,
     rentLamports: row.rent_lamports,
     owner: row.owner ? new PublicKey(row.owner) : undefined,
     mint: row.mint ? new PublicKey(row.mint) : undefined,
+    programId: row.program_id ? new PublicKey(row.program_id) : undefined,
     createdAt: new Date(row.created_at),
     lastCheckedAt: new Date(row.last_checked_at),
     lastActivityAt: row.last_activity_at
       ? new Date(row.last_activity_at)
       : undefined,
+    activityCheckedAt: row.activity_checked_at
+      ? new Date(row.activity_checked_at)
+      : undefined,
+    firstSeenReclaimableAt: row.first_seen_reclaimable_at
+      ? new Date(row.first_seen_reclaimable_at)
+      : undefined,
     status: row.status as AccountStatus,
+    operatorId: row.operator_id ?? undefined,
   }
 }
 
 // ==================== TRACKED ACCOUNTS ====================
 
+// Current time as an ISO-8601 UTC string, so JS parses it unambiguously
+const NOW_ISO = "strftime('%Y-%m-%dT%H:%M:%fZ', 'now')"
+
 /**
  * Add a new account to track
+ * Accounts seen in their creating transaction (payer set) also update the
+ * sponsor transaction, payer and creation time of an existing row.
  */
-export function addTrackedAccount(account: Omit<TrackedAccount, 'id'>): number {
+export function addTrackedAccount(
+  account: Omit<TrackedAccount, 'id'>,
+  origin: EventOrigin,
+): number {
   const db = getDatabase()
 
   const stmt = db.prepare(`
-    INSERT INTO tracked_accounts (pubkey, account_type, sponsor_tx, rent_lamports, owner, mint, status)
-    VALUES (?, ?, ?, ?, ?, ?, ?)
+    INSERT INTO tracked_accounts (pubkey, account_type, sponsor_tx, payer, rent_lamports, owner, mint, program_id, operator_id, status, created_at, first_seen_reclaimable_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CASE WHEN ? = 'reclaimable' THEN ${NOW_ISO} END)
     ON CONFLICT(pubkey) DO UPDATE SET
       account_type = excluded.account_type,
       rent_lamports = excluded.rent_lamports,
-      owner = excluded.owner,
-      mint = excluded.mint,
+      owner = COALESCE(excluded.owner, owner),
+      mint = COALESCE(excluded.mint, mint),
+      sponsor_tx = CASE WHEN excluded.payer IS NOT NULL THEN excluded.sponsor_tx ELSE sponsor_tx END,
+      created_at = CASE WHEN excluded.payer IS NOT NULL THEN excluded.created_at ELSE created_at END,
+      payer = COALESCE(excluded.payer, payer),
+      program_id = COALESCE(excluded.program_id, program_id),
+      operator_id = COALESCE(excluded.operator_id, operator_id),
+      first_seen_reclaimable_at = CASE
+        WHEN excluded.status = 'active' THEN NULL
+        ELSE COALESCE(first_seen_reclaimable_at, excluded.first_seen_reclaimable_at)
+      END,
       last_checked_at = datetime('now')
   `)
 
-  const result = stmt.run(
-    account.pubkey.toBase58(),
-    account.accountType,
-    account.sponsorTx || null,
-    account.rentLamports,
-    account.owner?.toBase58() || null,
-    account.mint?.toBase58() || null,
-    account.status,
+  const result = withAccountEvents(account.pubkey, origin, () =>
+    stmt.run(
+      account.pubkey.toBase58(),
+      account.accountType,
+      account.sponsorTx || null,
+      account.payer?.toBase58() || null,
+      account.rentLamports,
+      account.owner?.toBase58() || null,
+      account.mint?.toBase58() || null,
+      account.programId?.toBase58() || null,
+      account.operatorId ?? null,
+      account.status,
+      account.createdAt.toISOString(),
+      account.status,
+    ),
   )
 
   return result.lastInsertRowid as number
@@ -109,11 +144,24 @@ export function getTrackedAccount(pubkey: PublicKey): TrackedAccount | null {
 export function updateAccountStatus(
   pubkey: PublicKey,
   status: AccountStatus,
+  origin: EventOrigin,
 ): void {
   const db = getDatabase()
-  db.prepare(
+  const stmt = db.prepare(
     "UPDATE tracked_accounts SET status = ?, last_checked_at = datetime('now') WHERE pubkey = ?",
-  ).run(status, pubkey.toBase58())
+  )
+  withAccountEvents(pubkey, origin, () => stmt.run(status, pubkey.toBase58()))
+}
+
+/**
+ * Fields that can change when an account is re-checked
+ */
+export interface AccountStateUpdate {
+  status?: AccountStatus
+  rentLamports?: number
+  lastActivityAt?: Date
+  activityCheckedAt?: Date
+  programId?: PublicKey
 }
 
 /**
@@ -121,11 +169,8 @@ export function updateAccountStatus(
  */
 export function updateAccountState(
   pubkey: PublicKey,
-  updates: {
-    status?: AccountStatus
-    rentLamports?: number
-    lastActivityAt?: Date
-  },
+  updates: AccountStateUpdate,
+  origin: EventOrigin,
 ): void {
   const db = getDatabase()
 
@@ -135,6 +180,16 @@ export function updateAccountState(
   if (updates.status !== undefined) {
     setClauses.push('status = ?')
     params.push(updates.status)
+
+    // Cooldown starts the first time an account is seen empty and
+    // resets whenever it is seen active again
+    if (updates.status === 'reclaimable') {
+      setClauses.push(
+        `first_seen_reclaimable_at = COALESCE(first_seen_reclaimable_at, ${NOW_ISO})`,
+      )
+    } else if (updates.status === 'active') {
+      setClauses.push('first_seen_reclaimable_at = NULL')
+    }
   }
   if (updates.rentLamports !== undefined) {
     setClauses.push('rent_lamports = ?')
@@ -144,12 +199,45 @@ export function updateAccountState(
     setClauses.push('last_activity_at = ?')
     params.push(updates.lastActivityAt.toISOString())
   }
+  if (updates.activityCheckedAt !== undefined) {
+    setClauses.push('activity_checked_at = ?')
+    params.push(updates.activityCheckedAt.toISOString())
+  }
+  if (updates.programId !== undefined) {
+    setClauses.push('program_id = ?')
+    params.push(updates.programId.toBase58())
+  }
 
   params.push(pubkey.toBase58())
 
-  db.prepare(
+  const stmt = db.prepare(
     `UPDATE tracked_accounts SET ${setClauses.join(', ')} WHERE pubkey = ?`,
-  ).run(...params)
+  )
+  withAccountEvents(pubkey, origin, () => stmt.run(...params))
+}
+
+/**
+ * Apply many account state updates in a single transaction
+ * A row's slot, if given, is the slot its state was read at.
+ */
+export function updateAccountStates(
+  updates: (AccountStateUpdate & { pubkey: PublicKey; slot?: number })[],
+  origin: EventOrigin,
+): void {
+  if (updates.length === 0) return
+
+  const db = getDatabase()
+  const applyAll = db.transaction(
+    (rows: (AccountStateUpdate & { pubkey: PublicKey; slot?: number })[]) => {
+      for (const { pubkey, slot, ...update } of rows) {
+        updateAccountState(pubkey, update, {
+          ...origin,
+          slot: slot ?? origin.slot,
+        })
+      }
+    },
+  )
+  applyAll(updates)
 }
 
 /**
@@ -225,14 +313,21 @@ export function addReclaimHistory(
   amountReclaimed: number,
   txSignature: string,
   reason: string,
+  operatorId?: number,
 ): void {
   const db = getDatabase()
   db.prepare(
     `
-    INSERT INTO reclaim_history (account_pubkey, amount_reclaimed, tx_signature, reason)
-    VALUES (?, ?, ?, ?)
+    INSERT INTO reclaim_history (account_pubkey, amount_reclaimed, tx_signature, reason, operator_id)
+    VALUES (?, ?, ?, ?, ?)
   `,
-  ).run(accountPubkey.toBase58(), amountReclaimed, txSignature, reason)
+  ).run(
+    accountPubkey.toBase58(),
+    amountReclaimed,
+    txSignature,
+    reason,
+    operatorId ?? null,
+  )
 }
 
 /**
@@ -250,34 +345,58 @@ export function getReclaimHistory(limit = 100): ReclaimHistoryRow[] {
 /**
  * Add account to protection list
  */
-export function addProtectedAccount(pubkey: PublicKey, reason: string): void {
+export function addProtectedAccount(
+  pubkey: PublicKey,
+  reason: string,
+  origin: EventOrigin,
+): void {
   const db = getDatabase()
-  db.prepare(
-    `
+
+  withAccountEvents(pubkey, origin, () => {
+    const wasProtected = isAccountProtected(pubkey)
+    db.prepare(
+      `
     INSERT OR REPLACE INTO protected_accounts (pubkey, reason)
     VALUES (?, ?)
   `,
-  ).run(pubkey.toBase58(), reason)
+    ).run(pubkey.toBase58(), reason)
+    addAccountEvent(
+      pubkey,
+      'protection',
+      wasProtected ? 'protected' : 'unprotected',
+      'protected',
+      { ...origin, detail: origin.detail ?? reason },
+    )
 
-  // Update status in tracked accounts
-  db.prepare(
-    "UPDATE tracked_accounts SET status = 'protected' WHERE pubkey = ?",
-  ).run(pubkey.toBase58())
+    // Update status in tracked accounts
+    db.prepare(
+      "UPDATE tracked_accounts SET status = 'protected' WHERE pubkey = ?",
+    ).run(pubkey.toBase58())
+  })
 }
 
 /**
  * Remove account from protection list
  */
-export function removeProtectedAccount(pubkey: PublicKey): void {
+export function removeProtectedAccount(
+  pubkey: PublicKey,
+  origin: EventOrigin,
+): void {
   const db = getDatabase()
-  db.prepare('DELETE FROM protected_accounts WHERE pubkey = ?').run(
-    pubkey.toBase58(),
-  )
 
-  // Reset status to active
-  db.prepare(
-    "UPDATE tracked_accounts SET status = 'active' WHERE pubkey = ?",
-  ).run(pubkey.toBase58())
+  withAccountEvents(pubkey, origin, () => {
+    const { changes } = db
+      .prepare('DELETE FROM protected_accounts WHERE pubkey = ?')
+      .run(pubkey.toBase58())
+    if (changes > 0) {
+      addAccountEvent(pubkey, 'protection', 'protected', 'unprotected', origin)
+    }
+
+    // Reset status to active
+    db.prepare(
+      "UPDATE tracked_accounts SET status = 'active' WHERE pubkey = ?",
+    ).run(pubkey.toBase58())
+  })
 }
 
 /**
@@ -0,0 +1,31 @@
+import type { ClusterBindingRow } from '../core/types.js'
+import { getDatabase } from './index.js'
+
+/**
+ * Get the cluster this database is bound to, if any
+ */
+export function getClusterBinding(): ClusterBindingRow | undefined {
+  const db = getDatabase()
+  return db.prepare('SELECT * FROM cluster_binding WHERE id = 1').get() as
+    ClusterBindingRow | undefined
+}
+
+/**
+ * Bind the database to a cluster unless it is bound already
+ * Returns the binding in effect, which is the existing one if another
+ * process got there first.
+ */
+export function bindCluster(
+  genesisHash: string,
+  cluster: string,
+  rpcUrl: string,
+): ClusterBindingRow {
+  const db = getDatabase()
+  const stmt = db.prepare(`
+    INSERT OR IGNORE INTO cluster_binding (id, genesis_hash, cluster, rpc_url)
+    VALUES (1, ?, ?, ?)
+  `)
+  stmt.run(genesisHash, cluster, rpcUrl)
+
+  return getClusterBinding()!
+}
@@ -0,0 +1,145 @@
+import { PublicKey } from '@solana/web3.js'
+import { hostname, userInfo } from 'os'
+import type {
+  AccountEvent,
+  AccountEventKind,
+  AccountEventRow,
+  AccountEventSource,
+  EventOrigin,
+} from '../core/types.js'
+import { getDatabase } from './index.js'
+
+let localActor: string | undefined
+
+/**
+ * Actor for changes nobody in particular asked for: the local user and host
+ */
+function getLocalActor(): string {
+  if (!localActor) {
+    try {
+      localActor = `${userInfo().username}@${hostname()}`
+    } catch {
+      // No passwd entry, e.g. an arbitrary container UID
+      localActor = hostname()
+    }
+  }
+  return localActor
+}
+
+/**
+ * Convert database row to AccountEvent
+ */
+function rowToEvent(row: AccountEventRow): AccountEvent {
+  return {
+    id: row.id,
+    accountPubkey: new PublicKey(row.account_pubkey),
+    kind: row.kind as AccountEventKind,
+    oldValue: row.old_value ?? undefined,
+    newValue: row.new_value ?? undefined,
+    slot: row.slot ?? undefined,
+    source: row.source as AccountEventSource,
+    actor: row.actor ?? undefined,
+    detail: row.detail ?? undefined,
+    createdAt: new Date(row.created_at),
+  }
+}
+
+/**
+ * Append an event to an account's log
+ */
+export function addAccountEvent(
+  pubkey: PublicKey,
+  kind: AccountEventKind,
+  oldValue: string | number | null,
+  newValue: string | number | null,
+  origin: EventOrigin,
+): void {
+  const db = getDatabase()
+  const stmt = db.prepare(`
+    INSERT INTO account_events (account_pubkey, kind, old_value, new_value, slot, source, actor, detail)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `)
+  stmt.run(
+    pubkey.toBase58(),
+    kind,
+    oldValue === null ? null : String(oldValue),
+    newValue === null ? null : String(newValue),
+    origin.slot ?? null,
+    origin.source,
+    origin.actor ?? getLocalActor(),
+    origin.detail ?? null,
+  )
+}
+
+/**
+ * Run a change to a tracked account, logging any change to its status or
+ * lamports in the same transaction
+ */
+export function withAccountEvents<T>(
+  pubkey: PublicKey,
+  origin: EventOrigin,
+  change: () => T,
+): T {
+  const db = getDatabase()
+  const select = db.prepare(
+    'SELECT status, rent_lamports FROM tracked_accounts WHERE pubkey = ?',
+  )
+
+  return db.transaction(() => {
+    const before = select.get(pubkey.toBase58()) as
+      { status: string; rent_lamports: number } | undefined
+    const result = change()
+    const after = select.get(pubkey.toBase58()) as
+      { status: string; rent_lamports: number } | undefined
+
+    if (after && after.status !== before?.status) {
+      addAccountEvent(
+        pubkey,
+        'status',
+        before?.status ?? null,
+        after.status,
+        origin,
+      )
+    }
+    if (after && after.rent_lamports !== before?.rent_lamports) {
+      addAccountEvent(
+        pubkey,
+        'lamports',
+        before?.rent_lamports ?? null,
+        after.rent_lamports,
+        origin,
+      )
+    }
+
+    return result
+  })()
+}
+
+/**
+ * Get an account's most recent events, oldest first
+ */
+export function getAccountEvents(
+  pubkey: PublicKey,
+  limit = 100,
+): AccountEvent[] {
+  const db = getDatabase()
+  const rows = db
+    .prepare(
+      `SELECT * FROM (
+        SELECT * FROM account_events WHERE account_pubkey = ? ORDER BY id DESC LIMIT ?
+      ) ORDER BY id ASC`,
+    )
+    .all(pubkey.toBase58(), limit) as AccountEventRow[]
+  return rows.map(rowToEvent)
+}
+
+/**
+ * Get the most recent events across all accounts, newest first
+ */
+export function getRecentAccountEvents(limit = 50): AccountEvent[] {
+  const db = getDatabase()
+  const rows = db
+    .prepare('SELECT * FROM account_events ORDER BY id DESC LIMIT ?')
+    .all(limit) as AccountEventRow[]
+  return rows.map(rowToEvent)
+}
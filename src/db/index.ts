@@ -3,13 +3,18 @@ import { existsSync, mkdirSync } from 'fs'
 import path from 'path'
 import { getConfig } from '../config.js'
 import { logger } from '../utils/logger.js'
+import { getSchemaVersion, migrate } from './migrations.js'
 
 let db: Database.Database | null = null
 
 /**
- * Initialize the database with required tables
+ * Open the database and apply pending schema migrations
+ * Pass `migrate: false` to open it as is (vacuum db manages migrations
+ * itself).
  */
-export function initDatabase(): Database.Database {
+export function initDatabase(
+  options: { migrate?: boolean } = {},
+): Database.Database {
   if (db) return db
 
   const config = getConfig()
@@ -26,72 +31,18 @@ export function initDatabase(): Database.Database {
 
   // Enable WAL mode for better performance
   db.pragma('journal_mode = WAL')
-  db.pragma('user_version', { simple: true })
 
-  // Create tables
-  db.exec(`
-    -- Tracked accounts sponsored by Kora
-    CREATE TABLE IF NOT EXISTS tracked_accounts (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      pubkey TEXT UNIQUE NOT NULL,
-      account_type TEXT NOT NULL DEFAULT 'unknown',
-      sponsor_tx TEXT,
-      rent_lamports INTEGER NOT NULL DEFAULT 0,
-      owner TEXT,
-      mint TEXT,
-      created_at TEXT NOT NULL DEFAULT (datetime('now')),
-      last_checked_at TEXT NOT NULL DEFAULT (datetime('now')),
-      last_activity_at TEXT,
-      status TEXT NOT NULL DEFAULT 'active'
-    );
-
-    -- Index for faster status queries
-    CREATE INDEX IF NOT EXISTS idx_accounts_status ON tracked_accounts(status);
-    CREATE INDEX IF NOT EXISTS idx_accounts_type ON tracked_accounts(account_type);
-
-    -- Reclaim history for audit trail
-    CREATE TABLE IF NOT EXISTS reclaim_history (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      account_pubkey TEXT NOT NULL,
-      amount_reclaimed INTEGER NOT NULL,
-      tx_signature TEXT NOT NULL,
-      reason TEXT,
-      reclaimed_at TEXT NOT NULL DEFAULT (datetime('now'))
-    );
-
-    -- Protected accounts (whitelist)
-    CREATE TABLE IF NOT EXISTS protected_accounts (
-      pubkey TEXT PRIMARY KEY,
-      reason TEXT,
-      added_at TEXT NOT NULL DEFAULT (datetime('now'))
-    );
-  `)
-
-  // Initialize operators table
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS operators (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      name TEXT UNIQUE NOT NULL,
-      keypair_path TEXT NOT NULL,
-      treasury_address TEXT NOT NULL,
-      created_at TEXT DEFAULT (datetime('now')),
-      is_default BOOLEAN DEFAULT 0
-    );
-  `)
-
-  // Add operator_id column to tracked_accounts if it doesn't exist
-  const columns = db
-    .prepare('PRAGMA table_info(tracked_accounts)')
-    .all() as any[]
-  const hasOperatorId = columns.some((col) => col.name === 'operator_id')
-
-  if (!hasOperatorId) {
-    db.exec(
-      'ALTER TABLE tracked_accounts ADD COLUMN operator_id INTEGER REFERENCES operators(id);',
-    )
-    db.exec(
-      'ALTER TABLE reclaim_history ADD COLUMN operator_id INTEGER REFERENCES operators(id);',
-    )
+  try {
+    const applied = options.migrate === false ? [] : migrate(db)
+    if (applied.length > 0) {
+      logger.info(
+        `Migrated database schema to version ${getSchemaVersion(db)}: ${applied.map((m) => m.name).join(', ')}`,
+      )
+    }
+  } catch (error) {
+    db.close()
+    db = null
+    throw error
   }
 
   logger.info(`Database initialized at: ${dbPath}`)
@@ -0,0 +1,79 @@
+import type { ScheduledJobRow } from '../core/types.js'
+import { getDatabase } from './index.js'
+
+/**
+ * Register a job, keeping its run history
+ * The stored next run is kept unless the schedule changed, so a restarted
+ * daemon catches up on a run it missed while down.
+ */
+export function registerJob(
+  name: string,
+  schedule: string,
+  nextRunAt: Date,
+): ScheduledJobRow {
+  const db = getDatabase()
+  db.prepare(
+    `
+    INSERT INTO scheduled_jobs (name, schedule, next_run_at)
+    VALUES (?, ?, ?)
+    ON CONFLICT(name) DO UPDATE SET
+      next_run_at = CASE
+        WHEN schedule = excluded.schedule AND next_run_at IS NOT NULL THEN next_run_at
+        ELSE excluded.next_run_at
+      END,
+      schedule = excluded.schedule
+  `,
+  ).run(name, schedule, nextRunAt.toISOString())
+
+  return getJob(name)!
+}
+
+/**
+ * Get a job's state
+ */
+export function getJob(name: string): ScheduledJobRow | undefined {
+  const db = getDatabase()
+  return db.prepare('SELECT * FROM scheduled_jobs WHERE name = ?').get(name) as
+    ScheduledJobRow | undefined
+}
+
+/**
+ * Get all jobs
+ */
+export function getJobs(): ScheduledJobRow[] {
+  const db = getDatabase()
+  return db
+    .prepare('SELECT * FROM scheduled_jobs ORDER BY name')
+    .all() as ScheduledJobRow[]
+}
+
+/**
+ * Record a finished run and when the job runs next
+ */
+export function recordJobRun(
+  name: string,
+  run: {
+    startedAt: Date
+    status: 'success' | 'failed'
+    result: string
+    durationMs: number
+    nextRunAt: Date
+  },
+): void {
+  const db = getDatabase()
+  db.prepare(
+    `
+    UPDATE scheduled_jobs
+    SET last_run_at = ?, last_status = ?, last_result = ?, last_duration_ms = ?,
+        next_run_at = ?, run_count = run_count + 1
+    WHERE name = ?
+  `,
+  ).run(
+    run.startedAt.toISOString(),
+    run.status,
+    run.result,
+    run.durationMs,
+    run.nextRunAt.toISOString(),
+    name,
+  )
+}
@@ -0,0 +1,170 @@
+import { PublicKey } from '@solana/web3.js'
+import type {
+  EventOrigin,
+  JournalEntry,
+  JournalStatus,
+  ReclaimJournalRow,
+} from '../core/types.js'
+import { addReclaimHistory, updateAccountStatus } from './accounts.js'
+import { getDatabase } from './index.js'
+
+/**
+ * Convert database row to JournalEntry
+ */
+function rowToEntry(row: ReclaimJournalRow): JournalEntry {
+  return {
+    id: row.id,
+    txSignature: row.tx_signature,
+    accountPubkey: new PublicKey(row.account_pubkey),
+    amountLamports: row.amount_lamports,
+    reason: row.reason,
+    blockhash: row.blockhash,
+    lastValidBlockHeight: row.last_valid_block_height,
+    nonceAccount: row.nonce_account
+      ? new PublicKey(row.nonce_account)
+      : undefined,
+    status: row.status as JournalStatus,
+    error: row.error || undefined,
+    operatorId: row.operator_id ?? undefined,
+    createdAt: new Date(row.created_at),
+    resolvedAt: row.resolved_at ? new Date(row.resolved_at) : undefined,
+  }
+}
+
+/**
+ * Write a signed close transaction to the journal as pending
+ * Must be called before the transaction is broadcast. Journaling the same
+ * signed transaction again (e.g. re-broadcasting it) is a no-op. For a
+ * durable nonce transaction, pass the nonce as `blockhash` and its account.
+ */
+export function addPendingJournalEntries(
+  txSignature: string,
+  blockhash: string,
+  lastValidBlockHeight: number,
+  accounts: {
+    pubkey: PublicKey
+    lamports: number
+    reason: string
+    operatorId?: number
+  }[],
+  nonceAccount?: PublicKey,
+): void {
+  const db = getDatabase()
+  const stmt = db.prepare(`
+    INSERT OR IGNORE INTO reclaim_journal
+      (tx_signature, account_pubkey, amount_lamports, reason, blockhash, last_valid_block_height, nonce_account, operator_id)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `)
+
+  const insertAll = db.transaction(() => {
+    for (const account of accounts) {
+      stmt.run(
+        txSignature,
+        account.pubkey.toBase58(),
+        account.lamports,
+        account.reason,
+        blockhash,
+        lastValidBlockHeight,
+        nonceAccount?.toBase58() ?? null,
+        account.operatorId ?? null,
+      )
+    }
+  })
+  insertAll()
+}
+
+/**
+ * Get all journal entries that have not been resolved yet
+ */
+export function getPendingJournalEntries(): JournalEntry[] {
+  const db = getDatabase()
+  const rows = db
+    .prepare(
+      "SELECT * FROM reclaim_journal WHERE status = 'pending' ORDER BY id ASC",
+    )
+    .all() as ReclaimJournalRow[]
+  return rows.map(rowToEntry)
+}
+
+/**
+ * Check if any journal entries are awaiting resolution
+ */
+export function hasPendingJournalEntries(): boolean {
+  const db = getDatabase()
+  const row = db
+    .prepare("SELECT 1 FROM reclaim_journal WHERE status = 'pending' LIMIT 1")
+    .get()
+  return row !== undefined
+}
+
+/**
+ * Check if a close of this account is awaiting resolution
+ */
+export function hasPendingJournalEntry(pubkey: PublicKey): boolean {
+  const db = getDatabase()
+  const row = db
+    .prepare(
+      "SELECT 1 FROM reclaim_journal WHERE status = 'pending' AND account_pubkey = ? LIMIT 1",
+    )
+    .get(pubkey.toBase58())
+  return row !== undefined
+}
+
+/**
+ * Mark a transaction's journal entries confirmed and write the audit trail
+ * Account status, reclaim history and the journal are updated atomically.
+ * Account events are attributed to `origin` and carry the signature.
+ */
+export function confirmJournalEntries(
+  txSignature: string,
+  origin: EventOrigin,
+): JournalEntry[] {
+  const db = getDatabase()
+
+  const confirm = db.transaction(() => {
+    const rows = db
+      .prepare(
+        "SELECT * FROM reclaim_journal WHERE tx_signature = ? AND status = 'pending'",
+      )
+      .all(txSignature) as ReclaimJournalRow[]
+    const entries = rows.map(rowToEntry)
+
+    for (const entry of entries) {
+      updateAccountStatus(entry.accountPubkey, 'reclaimed', {
+        ...origin,
+        detail: txSignature,
+      })
+      addReclaimHistory(
+        entry.accountPubkey,
+        entry.amountLamports,
+        entry.txSignature,
+        entry.reason,
+        entry.operatorId,
+      )
+    }
+
+    db.prepare(
+      `UPDATE reclaim_journal SET status = 'confirmed', resolved_at = datetime('now')
+       WHERE tx_signature = ? AND status = 'pending'`,
+    ).run(txSignature)
+
+    return entries
+  })
+
+  return confirm()
+}
+
+/**
+ * Mark a transaction's pending journal entries as expired or failed
+ */
+export function resolveJournalEntries(
+  txSignature: string,
+  status: Exclude<JournalStatus, 'pending' | 'confirmed'>,
+  error?: string,
+): void {
+  const db = getDatabase()
+  db.prepare(
+    `UPDATE reclaim_journal SET status = ?, error = ?, resolved_at = datetime('now')
+     WHERE tx_signature = ? AND status = 'pending'`,
+  ).run(status, error || null, txSignature)
+}
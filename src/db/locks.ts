@@ -0,0 +1,110 @@
+import type { LockRow } from '../core/types.js'
+import { getDatabase } from './index.js'
+
+/**
+ * Take a lease if it is free, expired, already ours, or held by `takeOver`
+ * Returns the lease now in place, ours or not.
+ */
+export function tryAcquireLease(
+  name: string,
+  holder: string,
+  purpose: string,
+  ttlMs: number,
+  takeOver?: string,
+): LockRow {
+  const db = getDatabase()
+
+  // IMMEDIATE takes the write lock up front, so two processes can't both
+  // see the lease as free
+  return db
+    .transaction(() => {
+      const now = new Date()
+      const current = getLease(name)
+      const available =
+        !current ||
+        current.holder === holder ||
+        current.holder === takeOver ||
+        new Date(current.expires_at) <= now
+
+      if (available) {
+        db.prepare(
+          `
+          INSERT INTO locks (name, holder, purpose, acquired_at, heartbeat_at, expires_at)
+          VALUES (?, ?, ?, ?, ?, ?)
+          ON CONFLICT(name) DO UPDATE SET
+            holder = excluded.holder,
+            purpose = excluded.purpose,
+            acquired_at = excluded.acquired_at,
+            heartbeat_at = excluded.heartbeat_at,
+            expires_at = excluded.expires_at
+        `,
+        ).run(
+          name,
+          holder,
+          purpose,
+          now.toISOString(),
+          now.toISOString(),
+          new Date(now.getTime() + ttlMs).toISOString(),
+        )
+      }
+
+      return getLease(name)!
+    })
+    .immediate()
+}
+
+/**
+ * Extend a lease we hold; false if it is no longer ours
+ */
+export function renewLease(
+  name: string,
+  holder: string,
+  ttlMs: number,
+): boolean {
+  const db = getDatabase()
+  const now = new Date()
+  const { changes } = db
+    .prepare(
+      `
+      UPDATE locks SET heartbeat_at = ?, expires_at = ?
+      WHERE name = ? AND holder = ?
+    `,
+    )
+    .run(
+      now.toISOString(),
+      new Date(now.getTime() + ttlMs).toISOString(),
+      name,
+      holder,
+    )
+  return changes > 0
+}
+
+/**
+ * Release a lease; only if `holder` holds it, or unconditionally when omitted
+ */
+export function releaseLease(name: string, holder?: string): boolean {
+  const db = getDatabase()
+  const { changes } = holder
+    ? db
+        .prepare('DELETE FROM locks WHERE name = ? AND holder = ?')
+        .run(name, holder)
+    : db.prepare('DELETE FROM locks WHERE name = ?').run(name)
+  return changes > 0
+}
+
+/**
+ * Get a lease by name
+ */
+export function getLease(name: string): LockRow | undefined {
+  const db = getDatabase()
+  return db.prepare('SELECT * FROM locks WHERE name = ?').get(name) as
+    LockRow | undefined
+}
+
+/**
+ * Get all leases, expired ones included
+ */
+export function getLeases(): LockRow[] {
+  const db = getDatabase()
+  return db.prepare('SELECT * FROM locks ORDER BY name').all() as LockRow[]
+}
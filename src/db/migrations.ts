@@ -0,0 +1,403 @@
+import type Database from 'better-sqlite3'
+
+/**
+ * One numbered schema change
+ * Each runs in a transaction together with its user_version bump, so a
+ * failed migration leaves the schema as it was.
+ */
+export interface Migration {
+  version: number
+  name: string
+  up(db: Database.Database): void
+  /** Undo `up`; omitted when the change can't be undone */
+  down?(db: Database.Database): void
+}
+
+/**
+ * Whether a migration has been applied to a database
+ */
+export interface MigrationStatus {
+  version: number
+  name: string
+  applied: boolean
+  reversible: boolean
+}
+
+/**
+ * Add a column unless it exists already
+ */
+function addColumn(
+  db: Database.Database,
+  table: string,
+  column: string,
+  definition: string,
+): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as {
+    name: string
+  }[]
+  if (!columns.some((col) => col.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`)
+  }
+}
+
+/**
+ * Every schema change, oldest first; versions are consecutive from 1
+ * Never edit a released migration: add a new one.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'baseline',
+    // Databases from before versioned migrations have some or all of this
+    // schema already, so every statement tolerates existing tables and columns
+    up(db) {
+      db.exec(`
+      -- Tracked accounts sponsored by Kora
+      CREATE TABLE IF NOT EXISTS tracked_accounts (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        pubkey TEXT UNIQUE NOT NULL,
+        account_type TEXT NOT NULL DEFAULT 'unknown',
+        sponsor_tx TEXT,
+        rent_lamports INTEGER NOT NULL DEFAULT 0,
+        owner TEXT,
+        mint TEXT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        last_checked_at TEXT NOT NULL DEFAULT (datetime('now')),
+        last_activity_at TEXT,
+        status TEXT NOT NULL DEFAULT 'active'
+      );
+
+      -- Index for faster status queries
+      CREATE INDEX IF NOT EXISTS idx_accounts_status ON tracked_accounts(status);
+      CREATE INDEX IF NOT EXISTS idx_accounts_type ON tracked_accounts(account_type);
+
+      -- Reclaim history for audit trail
+      CREATE TABLE IF NOT EXISTS reclaim_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        account_pubkey TEXT NOT NULL,
+        amount_reclaimed INTEGER NOT NULL,
+        tx_signature TEXT NOT NULL,
+        reason TEXT,
+        reclaimed_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      -- Reclaim journal: closes written before broadcast, resolved after
+      CREATE TABLE IF NOT EXISTS reclaim_journal (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        tx_signature TEXT NOT NULL,
+        account_pubkey TEXT NOT NULL,
+        amount_lamports INTEGER NOT NULL,
+        reason TEXT,
+        blockhash TEXT NOT NULL,
+        last_valid_block_height INTEGER NOT NULL,
+        status TEXT NOT NULL DEFAULT 'pending',
+        error TEXT,
+        operator_id INTEGER REFERENCES operators(id),
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        resolved_at TEXT,
+        UNIQUE (tx_signature, account_pubkey)
+      );
+
+      CREATE INDEX IF NOT EXISTS idx_journal_status ON reclaim_journal(status);
+
+      -- Pre-flight simulations of reclaim transactions
+      CREATE TABLE IF NOT EXISTS reclaim_simulations (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        accounts TEXT NOT NULL,
+        success INTEGER NOT NULL,
+        error TEXT,
+        error_code TEXT,
+        units_consumed INTEGER,
+        logs TEXT NOT NULL DEFAULT '',
+        simulated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      -- Reclaim plans (vacuum plan output and dry runs), for review and apply
+      CREATE TABLE IF NOT EXISTS reclaim_plans (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        status TEXT NOT NULL,
+        operator_id INTEGER REFERENCES operators(id),
+        rpc_url TEXT NOT NULL,
+        total_lamports INTEGER NOT NULL DEFAULT 0,
+        plan_json TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        applied_at TEXT
+      );
+
+      CREATE TABLE IF NOT EXISTS reclaim_plan_items (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        plan_id INTEGER NOT NULL REFERENCES reclaim_plans(id),
+        account_pubkey TEXT NOT NULL,
+        reason TEXT,
+        lamports INTEGER NOT NULL,
+        amount TEXT NOT NULL,
+        slot INTEGER NOT NULL,
+        outcome TEXT NOT NULL DEFAULT 'planned',
+        amount_reclaimed INTEGER NOT NULL DEFAULT 0,
+        tx_signature TEXT,
+        error TEXT,
+        resolved_at TEXT,
+        UNIQUE (plan_id, account_pubkey)
+      );
+
+      -- Daemon job state, so schedules survive restarts
+      CREATE TABLE IF NOT EXISTS scheduled_jobs (
+        name TEXT PRIMARY KEY,
+        schedule TEXT NOT NULL,
+        next_run_at TEXT,
+        last_run_at TEXT,
+        last_status TEXT,
+        last_result TEXT,
+        last_duration_ms INTEGER,
+        run_count INTEGER NOT NULL DEFAULT 0
+      );
+
+      -- Leases that serialize mutating runs across processes
+      CREATE TABLE IF NOT EXISTS locks (
+        name TEXT PRIMARY KEY,
+        holder TEXT NOT NULL,
+        purpose TEXT,
+        acquired_at TEXT NOT NULL,
+        heartbeat_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL
+      );
+
+      -- How far each sponsor's transaction history has been scanned
+      CREATE TABLE IF NOT EXISTS sponsor_cursors (
+        sponsor TEXT PRIMARY KEY,
+        newest_signature TEXT,
+        oldest_signature TEXT,
+        history_complete INTEGER NOT NULL DEFAULT 0,
+        transactions_scanned INTEGER NOT NULL DEFAULT 0,
+        updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      -- The cluster this database belongs to, recorded on first use
+      CREATE TABLE IF NOT EXISTS cluster_binding (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        genesis_hash TEXT NOT NULL,
+        cluster TEXT NOT NULL,
+        rpc_url TEXT NOT NULL,
+        bound_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      -- Protected accounts (whitelist)
+      CREATE TABLE IF NOT EXISTS protected_accounts (
+        pubkey TEXT PRIMARY KEY,
+        reason TEXT,
+        added_at TEXT NOT NULL DEFAULT (datetime('now'))
+      );
+
+      -- Operators: keypairs and treasuries reclaims run as
+      CREATE TABLE IF NOT EXISTS operators (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT UNIQUE NOT NULL,
+        keypair_path TEXT NOT NULL,
+        treasury_address TEXT NOT NULL,
+        created_at TEXT DEFAULT (datetime('now')),
+        is_default BOOLEAN DEFAULT 0
+      );
+      `)
+
+      addColumn(
+        db,
+        'tracked_accounts',
+        'operator_id',
+        'INTEGER REFERENCES operators(id)',
+      )
+      addColumn(
+        db,
+        'reclaim_history',
+        'operator_id',
+        'INTEGER REFERENCES operators(id)',
+      )
+      addColumn(
+        db,
+        'reclaim_journal',
+        'operator_id',
+        'INTEGER REFERENCES operators(id)',
+      )
+      // SPL Token vs Token-2022
+      addColumn(db, 'tracked_accounts', 'program_id', 'TEXT')
+      // Signature history refresh
+      addColumn(db, 'tracked_accounts', 'activity_checked_at', 'TEXT')
+      // Reclaim cooldown
+      addColumn(db, 'tracked_accounts', 'first_seen_reclaimable_at', 'TEXT')
+      // Rent payer from the creating transaction
+      addColumn(db, 'tracked_accounts', 'payer', 'TEXT')
+    },
+  },
+  {
+    version: 2,
+    name: 'account events',
+    up(db) {
+      db.exec(`
+        -- Append-only log of account status, lamports and protection changes
+        CREATE TABLE account_events (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          account_pubkey TEXT NOT NULL,
+          kind TEXT NOT NULL,
+          old_value TEXT,
+          new_value TEXT,
+          slot INTEGER,
+          source TEXT NOT NULL,
+          actor TEXT,
+          detail TEXT,
+          created_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+        );
+
+        CREATE INDEX idx_account_events_account ON account_events(account_pubkey, id);
+
+        CREATE TRIGGER account_events_no_update BEFORE UPDATE ON account_events
+        BEGIN
+          SELECT RAISE(ABORT, 'account_events is append-only');
+        END;
+
+        CREATE TRIGGER account_events_no_delete BEFORE DELETE ON account_events
+        BEGIN
+          SELECT RAISE(ABORT, 'account_events is append-only');
+        END;
+      `)
+    },
+    down(db) {
+      db.exec('DROP TABLE account_events')
+    },
+  },
+  {
+    version: 3,
+    name: 'sponsor scan failures',
+    up(db) {
+      db.exec(`
+        -- Sponsor transactions a scan could not load, retried on the next scan
+        CREATE TABLE sponsor_scan_failures (
+          sponsor TEXT NOT NULL,
+          signature TEXT NOT NULL,
+          attempts INTEGER NOT NULL DEFAULT 1,
+          last_error TEXT,
+          first_failed_at TEXT NOT NULL DEFAULT (datetime('now')),
+          PRIMARY KEY (sponsor, signature)
+        );
+      `)
+    },
+    down(db) {
+      db.exec('DROP TABLE sponsor_scan_failures')
+    },
+  },
+  {
+    version: 4,
+    name: 'journal nonce account',
+    up(db) {
+      // Set for durable nonce closes, whose blockhash column holds the nonce
+      db.exec('ALTER TABLE reclaim_journal ADD COLUMN nonce_account TEXT')
+    },
+    down(db) {
+      db.exec('ALTER TABLE reclaim_journal DROP COLUMN nonce_account')
+    },
+  },
+]
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version
+
+/**
+ * Schema version of a database (0 before any migration)
+ */
+export function getSchemaVersion(db: Database.Database): number {
+  return db.pragma('user_version', { simple: true }) as number
+}
+
+/**
+ * Every known migration and whether it has been applied
+ */
+export function getMigrationStatus(db: Database.Database): MigrationStatus[] {
+  const version = getSchemaVersion(db)
+  return MIGRATIONS.map((migration) => ({
+    version: migration.version,
+    name: migration.name,
+    applied: migration.version <= version,
+    reversible: !!migration.down,
+  }))
+}
+
+/**
+ * Apply pending migrations up to `target`, one transaction each
+ * Returns the migrations this call applied. Refuses a database from a
+ * newer release, whose schema this one doesn't know.
+ */
+export function migrate(
+  db: Database.Database,
+  target = LATEST_SCHEMA_VERSION,
+): Migration[] {
+  const version = getSchemaVersion(db)
+  if (version > LATEST_SCHEMA_VERSION) {
+    throw new Error(
+      `Database schema is at version ${version}, but this release only knows up to ${LATEST_SCHEMA_VERSION}. Upgrade vacuum to use this database.`,
+    )
+  }
+  if (!Number.isInteger(target) || target > LATEST_SCHEMA_VERSION) {
+    throw new Error(
+      `Unknown schema version ${target} (latest is ${LATEST_SCHEMA_VERSION})`,
+    )
+  }
+  if (target < version) {
+    throw new Error(
+      `Database schema is already at version ${version}; use rollback to go back to ${target}`,
+    )
+  }
+
+  const pending = MIGRATIONS.filter(
+    (migration) => migration.version > version && migration.version <= target,
+  )
+  const applied: Migration[] = []
+  for (const migration of pending) {
+    // IMMEDIATE takes the write lock before the version is re-read, so a
+    // process starting alongside this one can't apply the same migration
+    db.transaction(() => {
+      if (getSchemaVersion(db) >= migration.version) return
+      migration.up(db)
+      db.pragma(`user_version = ${migration.version}`)
+      applied.push(migration)
+    }).immediate()
+  }
+  return applied
+}
+
+/**
+ * Undo applied migrations down to `target`, newest first
+ * Returns the migrations this call rolled back. Nothing is undone unless
+ * every migration in the range can be.
+ */
+export function rollback(db: Database.Database, target: number): Migration[] {
+  const version = getSchemaVersion(db)
+  if (version > LATEST_SCHEMA_VERSION) {
+    throw new Error(
+      `Database schema is at version ${version}, but this release only knows up to ${LATEST_SCHEMA_VERSION}. Roll back with the release that applied it.`,
+    )
+  }
+  if (!Number.isInteger(target) || target < 0 || target >= version) {
+    throw new Error(
+      `Cannot roll back from version ${version} to ${target}: the target must be below the current version`,
+    )
+  }
+
+  const undone = MIGRATIONS.filter(
+    (migration) => migration.version > target && migration.version <= version,
+  ).reverse()
+  const irreversible = undone.find((migration) => !migration.down)
+  if (irreversible) {
+    throw new Error(
+      `Migration ${irreversible.version} (${irreversible.name}) cannot be rolled back`,
+    )
+  }
+
+  const rolledBack: Migration[] = []
+  for (const migration of undone) {
+    // As in migrate, skip a step another process has already taken
+    db.transaction(() => {
+      if (getSchemaVersion(db) !== migration.version) return
+      migration.down!(db)
+      db.pragma(`user_version = ${migration.version - 1}`)
+      rolledBack.push(migration)
+    }).immediate()
+  }
+  return rolledBack
+}
@@ -1,8 +1,6 @@
 import { PublicKey } from '@solana/web3.js'
-import Database from 'better-sqlite3'
-import path from 'path'
-import { getConfig } from '../config.js'
 import { logger } from '../utils/logger.js'
+import { getDatabase } from './index.js'
 
 export interface Operator {
   id: number
@@ -13,50 +11,6 @@ export interface Operator {
   is_default: boolean
 }
 
-let operatorsDb: Database.Database | null = null
-
-export function getOperatorsDb(): Database.Database {
-  if (!operatorsDb) {
-    const config = getConfig()
-    const dbPath = path.resolve(config.dbPath)
-    operatorsDb = new Database(dbPath)
-  }
-  return operatorsDb
-}
-
-/**
- * Initialize operators table
- */
-export function initOperatorsTable(): void {
-  const db = getOperatorsDb()
-
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS operators (
-      id INTEGER PRIMARY KEY AUTOINCREMENT,
-      name TEXT UNIQUE NOT NULL,
-      keypair_path TEXT NOT NULL,
-      treasury_address TEXT NOT NULL,
-      created_at TEXT DEFAULT (datetime('now')),
-      is_default BOOLEAN DEFAULT 0
-    )
-  `)
-
-  // Add operator_id to tracked_accounts if it doesn't exist
-  const columns = db
-    .prepare('PRAGMA table_info(tracked_accounts)')
-    .all() as any[]
-  const hasOperatorId = columns.some((col) => col.name === 'operator_id')
-
-  if (!hasOperatorId) {
-    db.exec(`
-      ALTER TABLE tracked_accounts ADD COLUMN operator_id INTEGER REFERENCES operators(id);
-    `)
-    logger.debug('Added operator_id column to tracked_accounts')
-  }
-
-  logger.debug('Operators table initialized')
-}
-
 /**
  * Add a new operator
  */
@@ -66,7 +20,7 @@ export function addOperator(
   treasuryAddress: PublicKey,
   setAsDefault = false,
 ): Operator {
-  const db = getOperatorsDb()
+  const db = getDatabase()
 
   if (setAsDefault) {
     // Unset all current defaults
@@ -96,7 +50,7 @@ export function addOperator(
  * Get all operators
  */
 export function getAllOperators(): Operator[] {
-  const db = getOperatorsDb()
+  const db = getDatabase()
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const rows: any[] = db
     .prepare('SELECT * FROM operators ORDER BY created_at DESC')
@@ -116,7 +70,7 @@ export function getAllOperators(): Operator[] {
  * Get operator by ID
  */
 export function getOperatorById(id: number): Operator | undefined {
-  const db = getOperatorsDb()
+  const db = getDatabase()
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const row: any = db.prepare('SELECT * FROM operators WHERE id = ?').get(id)
 
@@ -136,7 +90,7 @@ export function getOperatorById(id: number): Operator | undefined {
  * Get operator by name
  */
 export function getOperatorByName(name: string): Operator | undefined {
-  const db = getOperatorsDb()
+  const db = getDatabase()
   const row = db.prepare('SELECT * FROM operators WHERE name = ?').get(name) as
     | {
         id: number
@@ -164,7 +118,7 @@ export function getOperatorByName(name: string): Operator | undefined {
  * Get default operator
  */
 export function getDefaultOperator(): Operator | undefined {
-  const db = getOperatorsDb()
+  const db = getDatabase()
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const row: any = db
     .prepare('SELECT * FROM operators WHERE is_default = 1')
@@ -200,7 +154,7 @@ export function getDefaultOperator(): Operator | undefined {
  * Set default operator
  */
 export function setDefaultOperator(id: number): void {
-  const db = getOperatorsDb()
+  const db = getDatabase()
 
   // Unset all defaults
   db.prepare('UPDATE operators SET is_default = 0').run()
@@ -215,7 +169,7 @@ export function setDefaultOperator(id: number): void {
  * Remove operator
  */
 export function removeOperator(id: number): void {
-  const db = getOperatorsDb()
+  const db = getDatabase()
 
   // Check if operator has tracked accounts
   const count = db
@@ -243,7 +197,7 @@ export function updateOperator(
     Pick<Operator, 'name' | 'keypair_path' | 'treasury_address'>
   >,
 ): void {
-  const db = getOperatorsDb()
+  const db = getDatabase()
 
   const fields: string[] = []
   const values: any[] = []
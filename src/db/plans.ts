@@ -0,0 +1,138 @@
+import type {
+  PlanItemOutcome,
+  PlanStatus,
+  ReclaimPlanItemRow,
+  ReclaimPlanRow,
+  StateFingerprint,
+} from '../core/types.js'
+import { getDatabase } from './index.js'
+
+/**
+ * One account in a plan being stored
+ */
+export interface PlanItemRecord {
+  pubkey: string
+  reason: string
+  fingerprint: StateFingerprint
+}
+
+/**
+ * Final outcome of one planned account
+ */
+export interface PlanItemResult {
+  pubkey: string
+  outcome: PlanItemOutcome
+  amountReclaimed?: number
+  txSignature?: string
+  error?: string
+}
+
+/**
+ * Store a plan and its accounts, returning the plan id
+ */
+export function addPlan(plan: {
+  status: PlanStatus
+  operatorId?: number
+  rpcUrl: string
+  totalLamports: number
+  planJson: string
+  items: PlanItemRecord[]
+}): number {
+  const db = getDatabase()
+  const insertPlan = db.prepare(`
+    INSERT INTO reclaim_plans (status, operator_id, rpc_url, total_lamports, plan_json)
+    VALUES (?, ?, ?, ?, ?)
+  `)
+  const insertItem = db.prepare(`
+    INSERT INTO reclaim_plan_items (plan_id, account_pubkey, reason, lamports, amount, slot)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `)
+
+  return db.transaction(() => {
+    const { lastInsertRowid } = insertPlan.run(
+      plan.status,
+      plan.operatorId ?? null,
+      plan.rpcUrl,
+      plan.totalLamports,
+      plan.planJson,
+    )
+    const planId = Number(lastInsertRowid)
+    for (const item of plan.items) {
+      insertItem.run(
+        planId,
+        item.pubkey,
+        item.reason,
+        item.fingerprint.lamports,
+        item.fingerprint.amount,
+        item.fingerprint.slot,
+      )
+    }
+    return planId
+  })()
+}
+
+/**
+ * Get a stored plan by id
+ */
+export function getPlan(id: number): ReclaimPlanRow | undefined {
+  const db = getDatabase()
+  return db.prepare('SELECT * FROM reclaim_plans WHERE id = ?').get(id) as
+    ReclaimPlanRow | undefined
+}
+
+/**
+ * Get recent plans, newest first
+ */
+export function getRecentPlans(limit = 20): ReclaimPlanRow[] {
+  const db = getDatabase()
+  return db
+    .prepare('SELECT * FROM reclaim_plans ORDER BY id DESC LIMIT ?')
+    .all(limit) as ReclaimPlanRow[]
+}
+
+/**
+ * Get the accounts of a plan with their outcomes
+ */
+export function getPlanItems(planId: number): ReclaimPlanItemRow[] {
+  const db = getDatabase()
+  return db
+    .prepare('SELECT * FROM reclaim_plan_items WHERE plan_id = ? ORDER BY id')
+    .all(planId) as ReclaimPlanItemRow[]
+}
+
+/**
+ * Record what happened to planned accounts and set the plan's status
+ */
+export function resolvePlan(
+  planId: number,
+  status: PlanStatus,
+  results: PlanItemResult[],
+): void {
+  const db = getDatabase()
+  const updateItem = db.prepare(`
+    UPDATE reclaim_plan_items
+    SET outcome = ?, amount_reclaimed = ?, tx_signature = ?, error = ?,
+        resolved_at = datetime('now')
+    WHERE plan_id = ? AND account_pubkey = ?
+  `)
+  const updatePlan = db.prepare(`
+    UPDATE reclaim_plans
+    SET status = ?,
+        applied_at = CASE WHEN ? = 'applied' THEN datetime('now') ELSE applied_at END
+    WHERE id = ?
+  `)
+
+  db.transaction(() => {
+    for (const result of results) {
+      updateItem.run(
+        result.outcome,
+        result.amountReclaimed ?? 0,
+        result.txSignature || null,
+        result.error ?? null,
+        planId,
+        result.pubkey,
+      )
+    }
+    updatePlan.run(status, status, planId)
+  })()
+}
@@ -0,0 +1,36 @@
+import { PublicKey } from '@solana/web3.js'
+import type { SimulationReport, SimulationRow } from '../core/types.js'
+import { getDatabase } from './index.js'
+
+/**
+ * Record the pre-flight simulation of a close transaction
+ */
+export function addSimulationRecord(
+  accounts: PublicKey[],
+  report: SimulationReport,
+): void {
+  const db = getDatabase()
+  db.prepare(
+    `
+    INSERT INTO reclaim_simulations (accounts, success, error, error_code, units_consumed, logs)
+    VALUES (?, ?, ?, ?, ?, ?)
+  `,
+  ).run(
+    accounts.map((a) => a.toBase58()).join(','),
+    report.success ? 1 : 0,
+    report.error || null,
+    report.errorCode || null,
+    report.unitsConsumed ?? null,
+    report.logs.join('\n'),
+  )
+}
+
+/**
+ * Get recent simulations, newest first
+ */
+export function getRecentSimulations(limit = 50): SimulationRow[] {
+  const db = getDatabase()
+  return db
+    .prepare('SELECT * FROM reclaim_simulations ORDER BY id DESC LIMIT ?')
+    .all(limit) as SimulationRow[]
+}
@@ -0,0 +1,115 @@
+import { PublicKey } from '@solana/web3.js'
+import type { SponsorCursorRow, SponsorScanFailureRow } from '../core/types.js'
+import { getDatabase } from './index.js'
+
+/**
+ * Get the scan cursor for a sponsor (fee payer)
+ */
+export function getSponsorCursor(
+  sponsor: PublicKey,
+): SponsorCursorRow | undefined {
+  const db = getDatabase()
+  return db
+    .prepare('SELECT * FROM sponsor_cursors WHERE sponsor = ?')
+    .get(sponsor.toBase58()) as SponsorCursorRow | undefined
+}
+
+/**
+ * Get every sponsor cursor
+ */
+export function getSponsorCursors(): SponsorCursorRow[] {
+  const db = getDatabase()
+  return db
+    .prepare('SELECT * FROM sponsor_cursors ORDER BY updated_at DESC')
+    .all() as SponsorCursorRow[]
+}
+
+/**
+ * Record a finished scan of a sponsor's history
+ * Omitted signatures keep their stored values.
+ */
+export function saveSponsorCursor(
+  sponsor: PublicKey,
+  scan: {
+    newestSignature?: string
+    oldestSignature?: string
+    historyComplete?: boolean
+    transactionsScanned: number
+  },
+): void {
+  const db = getDatabase()
+  db.prepare(
+    `
+    INSERT INTO sponsor_cursors (sponsor, newest_signature, oldest_signature, history_complete, transactions_scanned)
+    VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT(sponsor) DO UPDATE SET
+      newest_signature = COALESCE(excluded.newest_signature, newest_signature),
+      oldest_signature = COALESCE(excluded.oldest_signature, oldest_signature),
+      history_complete = MAX(history_complete, excluded.history_complete),
+      transactions_scanned = transactions_scanned + excluded.transactions_scanned,
+      updated_at = datetime('now')
+  `,
+  ).run(
+    sponsor.toBase58(),
+    scan.newestSignature ?? null,
+    scan.oldestSignature ?? null,
+    scan.historyComplete ? 1 : 0,
+    scan.transactionsScanned,
+  )
+}
+
+/**
+ * Get the transactions of a sponsor that earlier scans could not load
+ */
+export function getSponsorScanFailures(
+  sponsor: PublicKey,
+): SponsorScanFailureRow[] {
+  const db = getDatabase()
+  return db
+    .prepare(
+      'SELECT * FROM sponsor_scan_failures WHERE sponsor = ? ORDER BY first_failed_at, signature',
+    )
+    .all(sponsor.toBase58()) as SponsorScanFailureRow[]
+}
+
+/**
+ * Record transactions a scan could not load, counting repeat failures
+ */
+export function recordSponsorScanFailures(
+  sponsor: PublicKey,
+  failures: { signature: string; error: string }[],
+): void {
+  const db = getDatabase()
+  const stmt = db.prepare(`
+    INSERT INTO sponsor_scan_failures (sponsor, signature, last_error)
+    VALUES (?, ?, ?)
+    ON CONFLICT(sponsor, signature) DO UPDATE SET
+      attempts = attempts + 1,
+      last_error = excluded.last_error
+  `)
+
+  db.transaction(() => {
+    for (const failure of failures) {
+      stmt.run(sponsor.toBase58(), failure.signature, failure.error)
+    }
+  })()
+}
+
+/**
+ * Forget failed transactions that loaded on retry or were given up on
+ */
+export function clearSponsorScanFailures(
+  sponsor: PublicKey,
+  signatures: string[],
+): void {
+  const db = getDatabase()
+  const stmt = db.prepare(
+    'DELETE FROM sponsor_scan_failures WHERE sponsor = ? AND signature = ?',
+  )
+
+  db.transaction(() => {
+    for (const signature of signatures) {
+      stmt.run(sponsor.toBase58(), signature)
+    }
+  })()
+}
@@ -1,3 +1,9 @@
 export * from './client.js'
 export { getConfig } from './config.js'
 export * from './core/types.js'
+export {
+  KeypairSigner,
+  RemoteSigner,
+  createSigner,
+  type Signer,
+} from './services/signer.js'
@@ -1,15 +1,21 @@
 import cors from 'cors'
 import express, { Request, Response } from 'express'
+import type { Server } from 'http'
 import path from 'path'
 import { fileURLToPath } from 'url'
+import { PublicKey } from '@solana/web3.js'
 import {
   getAccountStats,
   getAllTrackedAccounts,
   getReclaimHistory,
+  getTrackedAccount,
 } from '../db/accounts.js'
+import { getAccountEvents, getRecentAccountEvents } from '../db/events.js'
 import { initDatabase } from '../db/index.js'
+import { getJobs } from '../db/jobs.js'
 import { getAllOperators } from '../db/operators.js'
 import { koraService } from '../services/kora.js'
+import { rpcPool } from '../services/rpcPool.js'
 import { logger } from '../utils/logger.js'
 
 const __filename = fileURLToPath(import.meta.url)
@@ -91,6 +97,69 @@ app.get('/api/accounts', (req: Request, res: Response) => {
   }
 })
 
+/**
+ * GET /api/accounts/:pubkey/events - Get an account and its change timeline
+ */
+app.get('/api/accounts/:pubkey/events', (req: Request, res: Response) => {
+  let pubkey: PublicKey
+  try {
+    pubkey = new PublicKey(req.params.pubkey as string)
+  } catch {
+    res.status(400).json({
+      success: false,
+      error: 'Invalid public key',
+    })
+    return
+  }
+
+  try {
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 100
+    const account = getTrackedAccount(pubkey)
+    const events = getAccountEvents(pubkey, limit)
+
+    res.json({
+      success: true,
+      data: {
+        account: account && { ...account, pubkey: account.pubkey.toBase58() },
+        events: events.map((event) => ({
+          ...event,
+          accountPubkey: event.accountPubkey.toBase58(),
+        })),
+      },
+    })
+  } catch (error) {
+    logger.error('Error fetching account events:', error)
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch account events',
+    })
+  }
+})
+
+/**
+ * GET /api/events - Get the most recent account changes
+ */
+app.get('/api/events', (req: Request, res: Response) => {
+  try {
+    const limit = req.query.limit ? parseInt(req.query.limit as string) : 50
+    const events = getRecentAccountEvents(limit)
+
+    res.json({
+      success: true,
+      data: events.map((event) => ({
+        ...event,
+        accountPubkey: event.accountPubkey.toBase58(),
+      })),
+    })
+  } catch (error) {
+    logger.error('Error fetching events:', error)
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch events',
+    })
+  }
+})
+
 /**
  * GET /api/history - Get reclaim history
  */
@@ -135,6 +204,24 @@ app.get('/api/operators', (req: Request, res: Response) => {
   }
 })
 
+/**
+ * GET /api/jobs - Get daemon job schedule and last runs
+ */
+app.get('/api/jobs', (req: Request, res: Response) => {
+  try {
+    res.json({
+      success: true,
+      data: getJobs(),
+    })
+  } catch (error) {
+    logger.error('Error fetching jobs:', error)
+    res.status(500).json({
+      success: false,
+      error: 'Failed to fetch jobs',
+    })
+  }
+})
+
 /**
  * GET /api/node-status - Get Kora Node health status
  */
@@ -154,11 +241,30 @@ app.get('/api/node-status', async (req: Request, res: Response) => {
   }
 })
 
+/**
+ * GET /api/rpc - Probe the RPC pool and return each endpoint's health
+ */
+app.get('/api/rpc', async (req: Request, res: Response) => {
+  try {
+    const endpoints = await rpcPool.checkHealth()
+    res.json({
+      success: true,
+      data: endpoints,
+    })
+  } catch (error) {
+    logger.error('Error checking RPC endpoints:', error)
+    res.status(500).json({
+      success: false,
+      error: 'Failed to check RPC endpoints',
+    })
+  }
+})
+
 /**
  * Start the server
  */
-export function startDashboardServer(): void {
-  app.listen(PORT, () => {
+export function startDashboardServer(): Server {
+  return app.listen(PORT, () => {
     logger.success(`Dashboard server running at http://localhost:${PORT}`)
     logger.info(`API available at http://localhost:${PORT}/api/*`)
   })
@@ -0,0 +1,108 @@
+import { Keypair } from '@solana/web3.js'
+import bs58 from 'bs58'
+import { KeyObject, createPrivateKey, sign } from 'crypto'
+import express, { NextFunction, Request, Response } from 'express'
+import type { Server } from 'http'
+import { logger } from '../utils/logger.js'
+
+/**
+ * Local stand-in for a remote signing service
+ * Implements the protocol spoken by RemoteSigner, for development and for
+ * exercising the remote signer path without the production service.
+ */
+export function createSigningApp(keypair: Keypair, token?: string) {
+  const app = express()
+  const publicKey = keypair.publicKey.toBase58()
+  const privateKey = toPrivateKey(keypair)
+
+  app.use(express.json())
+
+  // Require the bearer token when one is configured
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    if (token && req.headers.authorization !== `Bearer ${token}`) {
+      res.status(401).json({ error: 'Unauthorized' })
+      return
+    }
+    next()
+  })
+
+  /**
+   * GET /publicKey - Address this service signs for
+   */
+  app.get('/publicKey', (req: Request, res: Response) => {
+    res.json({ publicKey })
+  })
+
+  /**
+   * POST /sign - Sign a serialized transaction message
+   */
+  app.post('/sign', (req: Request, res: Response) => {
+    const { publicKey: requested, message } = req.body ?? {}
+
+    if (requested !== publicKey) {
+      res.status(400).json({ error: `Unknown signer: ${requested}` })
+      return
+    }
+    if (typeof message !== 'string' || message.length === 0) {
+      res.status(400).json({ error: 'message (base64) is required' })
+      return
+    }
+
+    const signature = sign(null, Buffer.from(message, 'base64'), privateKey)
+    logger.debug(`Signed message for ${publicKey}`)
+    res.json({ signature: bs58.encode(signature) })
+  })
+
+  return app
+}
+
+/**
+ * Whether a listen address only accepts connections from this machine
+ */
+function isLoopback(host: string): boolean {
+  return host === 'localhost' || host === '::1' || /^127\./.test(host)
+}
+
+/**
+ * Start the stand-in signing service
+ * Listens on loopback unless told otherwise. It signs whatever it is sent,
+ * so binding any other address requires a token.
+ */
+export function startSigningServer(
+  keypair: Keypair,
+  port: number,
+  token?: string,
+  host = '127.0.0.1',
+): Server {
+  if (!token && !isLoopback(host)) {
+    throw new Error(
+      `Refusing to serve signatures on ${host} without a token: set REMOTE_SIGNER_TOKEN or pass --token`,
+    )
+  }
+
+  return createSigningApp(keypair, token).listen(port, host, () => {
+    logger.success(
+      `Signing service for ${keypair.publicKey.toBase58()} running at http://${host}:${port}`,
+    )
+    if (!token) {
+      logger.warn(
+        'No token set: any process on this machine can request signatures',
+      )
+    }
+  })
+}
+
+/**
+ * Convert a Solana keypair to a Node ed25519 private key
+ */
+function toPrivateKey(keypair: Keypair): KeyObject {
+  return createPrivateKey({
+    format: 'jwk',
+    key: {
+      kty: 'OKP',
+      crv: 'Ed25519',
+      d: Buffer.from(keypair.secretKey.subarray(0, 32)).toString('base64url'),
+      x: Buffer.from(keypair.publicKey.toBytes()).toString('base64url'),
+    },
+  })
+}
@@ -0,0 +1,175 @@
+import {
+  ParsedInstruction,
+  ParsedTransactionWithMeta,
+  PartiallyDecodedInstruction,
+  PublicKey,
+  SystemProgram,
+} from '@solana/web3.js'
+import type { AccountType } from '../core/types.js'
+import { isTokenProgram } from './solana.js'
+
+const ASSOCIATED_TOKEN_PROGRAM_ID = new PublicKey(
+  'ATokenGPvbdGVxr1b2hvZbsiqW5xWH25efTNsLJA8knL',
+)
+
+/**
+ * An account created by a transaction
+ */
+export interface CreatedAccount {
+  pubkey: PublicKey
+  accountType: AccountType
+  payer?: PublicKey // who funded the rent
+  owner?: PublicKey // token owner, for token accounts
+  mint?: PublicKey
+  programId?: PublicKey // token program, for token accounts
+  createdAt?: Date // block time of the creating transaction
+}
+
+// What each instruction kind tells us about the account it touches
+interface Observation {
+  created: boolean
+  accountType?: AccountType
+  payer?: string
+  owner?: string
+  mint?: string
+  programId?: PublicKey
+}
+
+const TOKEN_ACCOUNT_INITS = new Set([
+  'initializeAccount',
+  'initializeAccount2',
+  'initializeAccount3',
+])
+
+/**
+ * Find every account a transaction created, from top-level and inner
+ * instructions alike
+ *
+ * Recognizes System Program createAccount/createAccountWithSeed, the
+ * Associated Token Program's create/createIdempotent, and
+ * initializeAccount/2/3 on both SPL Token and Token-2022. Facts about the
+ * same account from several instructions are merged, so an ATA created via
+ * CPI gets its payer from the ATA instruction and its mint and owner from
+ * the token initialization. A createIdempotent that found the account
+ * already in place does not count as a creation.
+ */
+export function extractCreatedAccounts(
+  tx: ParsedTransactionWithMeta,
+): CreatedAccount[] {
+  if (tx.meta?.err) return []
+
+  const instructions = [
+    ...tx.transaction.message.instructions,
+    ...(tx.meta?.innerInstructions ?? []).flatMap(
+      (inner) => inner.instructions,
+    ),
+  ]
+
+  const observed = new Map<string, Observation>()
+  for (const instruction of instructions) {
+    const result = observe(instruction)
+    if (!result) continue
+
+    const [account, observation] = result
+    const merged = observed.get(account) ?? { created: false }
+    observed.set(account, {
+      created: merged.created || observation.created,
+      // First classification wins: an ATA create precedes its inner init
+      accountType: merged.accountType ?? observation.accountType,
+      payer: merged.payer ?? observation.payer,
+      owner: merged.owner ?? observation.owner,
+      mint: merged.mint ?? observation.mint,
+      programId: merged.programId ?? observation.programId,
+    })
+  }
+
+  const createdAt = tx.blockTime ? new Date(tx.blockTime * 1000) : undefined
+  const created: CreatedAccount[] = []
+
+  for (const [account, observation] of observed) {
+    if (!observation.created) continue
+    created.push({
+      pubkey: new PublicKey(account),
+      accountType: observation.accountType ?? 'unknown',
+      payer: observation.payer ? new PublicKey(observation.payer) : undefined,
+      owner: observation.owner ? new PublicKey(observation.owner) : undefined,
+      mint: observation.mint ? new PublicKey(observation.mint) : undefined,
+      programId: observation.programId,
+      createdAt,
+    })
+  }
+
+  return created
+}
+
+/**
+ * Interpret one parsed instruction, if it creates or initializes an account
+ */
+function observe(
+  instruction: ParsedInstruction | PartiallyDecodedInstruction,
+): [string, Observation] | null {
+  if (!('parsed' in instruction) || typeof instruction.parsed !== 'object') {
+    return null
+  }
+
+  const { programId } = instruction
+  const { type, info } = instruction.parsed as {
+    type: string
+    info: Record<string, string>
+  }
+
+  if (programId.equals(SystemProgram.programId)) {
+    if (type !== 'createAccount' && type !== 'createAccountWithSeed') {
+      return null
+    }
+
+    const owner = new PublicKey(info.owner)
+    return [
+      info.newAccount,
+      {
+        created: true,
+        // Token-program accounts without an account init are mints or multisigs
+        accountType:
+          isTokenProgram(owner) || owner.equals(SystemProgram.programId)
+            ? undefined
+            : 'pda',
+        payer: info.source,
+      },
+    ]
+  }
+
+  if (programId.equals(ASSOCIATED_TOKEN_PROGRAM_ID)) {
+    if (type !== 'create' && type !== 'createIdempotent') return null
+
+    return [
+      info.account,
+      {
+        // createIdempotent is a no-op for an existing ATA; it only counts
+        // when the token account init shows up in its inner instructions
+        created: type === 'create',
+        accountType: 'ata',
+        payer: info.source,
+        owner: info.wallet,
+        mint: info.mint,
+        programId: info.tokenProgram
+          ? new PublicKey(info.tokenProgram)
+          : undefined,
+      },
+    ]
+  }
+
+  if (isTokenProgram(programId) && TOKEN_ACCOUNT_INITS.has(type)) {
+    return [
+      info.account,
+      {
+        created: true,
+        accountType: 'token_account',
+        owner: info.owner,
+        mint: info.mint,
+        programId,
+      },
+    ]
+  }
+
+  return null
+}
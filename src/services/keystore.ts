@@ -0,0 +1,335 @@
+import { Keypair } from '@solana/web3.js'
+import {
+  createCipheriv,
+  createDecipheriv,
+  randomBytes,
+  scryptSync,
+} from 'crypto'
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  renameSync,
+  writeFileSync,
+} from 'fs'
+import path from 'path'
+import { getConfig } from '../config.js'
+import { promptSecret } from '../utils/prompt.js'
+
+/**
+ * Encrypted operator key on disk
+ * The secret key is sealed with AES-256-GCM under a key derived from a
+ * passphrase with scrypt. The public key is bound in as associated data, so
+ * a keystore cannot be edited to claim a different address.
+ */
+export interface KeystoreFile {
+  version: 1
+  publicKey: string
+  kdf: {
+    name: 'scrypt'
+    salt: string // hex
+    n: number
+    r: number
+    p: number
+  }
+  cipher: {
+    name: 'aes-256-gcm'
+    iv: string // hex
+    tag: string // hex
+  }
+  ciphertext: string // hex
+}
+
+// scrypt cost parameters (~64 MiB of memory per derivation)
+const SCRYPT_N = 2 ** 16
+const SCRYPT_R = 8
+const SCRYPT_P = 1
+const KEY_LENGTH = 32
+
+function deriveKey(passphrase: string, kdf: KeystoreFile['kdf']): Buffer {
+  return scryptSync(passphrase, Buffer.from(kdf.salt, 'hex'), KEY_LENGTH, {
+    N: kdf.n,
+    r: kdf.r,
+    p: kdf.p,
+    maxmem: 256 * kdf.n * kdf.r,
+  })
+}
+
+/**
+ * Encrypt a keypair's secret key with a passphrase
+ */
+export function encryptKeypair(
+  keypair: Keypair,
+  passphrase: string,
+): KeystoreFile {
+  if (!passphrase) {
+    throw new Error('Keystore passphrase must not be empty')
+  }
+
+  const kdf: KeystoreFile['kdf'] = {
+    name: 'scrypt',
+    salt: randomBytes(16).toString('hex'),
+    n: SCRYPT_N,
+    r: SCRYPT_R,
+    p: SCRYPT_P,
+  }
+  const publicKey = keypair.publicKey.toBase58()
+  const iv = randomBytes(12)
+
+  const cipher = createCipheriv('aes-256-gcm', deriveKey(passphrase, kdf), iv)
+  cipher.setAAD(Buffer.from(publicKey))
+  const ciphertext = Buffer.concat([
+    cipher.update(keypair.secretKey),
+    cipher.final(),
+  ])
+
+  return {
+    version: 1,
+    publicKey,
+    kdf,
+    cipher: {
+      name: 'aes-256-gcm',
+      iv: iv.toString('hex'),
+      tag: cipher.getAuthTag().toString('hex'),
+    },
+    ciphertext: ciphertext.toString('hex'),
+  }
+}
+
+/**
+ * Decrypt a keystore back into a keypair
+ * Throws if the passphrase is wrong or the file was tampered with.
+ */
+export function decryptKeystore(
+  keystore: KeystoreFile,
+  passphrase: string,
+): Keypair {
+  if (keystore.version !== 1 || keystore.kdf.name !== 'scrypt') {
+    throw new Error(`Unsupported keystore format (version ${keystore.version})`)
+  }
+
+  const decipher = createDecipheriv(
+    'aes-256-gcm',
+    deriveKey(passphrase, keystore.kdf),
+    Buffer.from(keystore.cipher.iv, 'hex'),
+  )
+  decipher.setAAD(Buffer.from(keystore.publicKey))
+  decipher.setAuthTag(Buffer.from(keystore.cipher.tag, 'hex'))
+
+  let secretKey: Buffer
+  try {
+    secretKey = Buffer.concat([
+      decipher.update(Buffer.from(keystore.ciphertext, 'hex')),
+      decipher.final(),
+    ])
+  } catch {
+    throw new Error(
+      'Could not unlock keystore: wrong passphrase or corrupt file',
+    )
+  }
+
+  const keypair = Keypair.fromSecretKey(secretKey)
+  if (keypair.publicKey.toBase58() !== keystore.publicKey) {
+    throw new Error('Keystore public key does not match its secret key')
+  }
+  return keypair
+}
+
+/**
+ * Read a keystore file from disk
+ */
+export function readKeystoreFile(keystorePath: string): KeystoreFile {
+  const resolvedPath = path.resolve(keystorePath)
+
+  if (!existsSync(resolvedPath)) {
+    throw new Error(`Keystore not found at: ${resolvedPath}`)
+  }
+
+  return JSON.parse(readFileSync(resolvedPath, 'utf-8')) as KeystoreFile
+}
+
+/**
+ * Write a keystore file, readable by the current user only
+ */
+export function writeKeystoreFile(
+  keystorePath: string,
+  keystore: KeystoreFile,
+): void {
+  writeFileSync(path.resolve(keystorePath), JSON.stringify(keystore, null, 2), {
+    mode: 0o600,
+  })
+}
+
+// ==================== NAMED ENTRIES ====================
+
+/**
+ * A key stored in the keystore directory
+ */
+export interface KeystoreEntry {
+  name: string
+  publicKey: string
+  path: string
+}
+
+const ENTRY_NAME = /^[A-Za-z0-9_-]+$/
+
+/**
+ * Resolve a keystore reference to a file
+ * A bare name refers to an entry in KEYSTORE_DIR; anything that looks like
+ * a path is used as-is.
+ */
+export function resolveKeystorePath(ref: string): string {
+  if (ENTRY_NAME.test(ref)) {
+    return path.resolve(getConfig().keystoreDir, `${ref}.json`)
+  }
+  return path.resolve(ref)
+}
+
+/**
+ * List all entries in the keystore directory
+ */
+export function listKeystoreEntries(): KeystoreEntry[] {
+  const dir = path.resolve(getConfig().keystoreDir)
+  if (!existsSync(dir)) return []
+
+  return readdirSync(dir)
+    .filter((file) => file.endsWith('.json'))
+    .sort()
+    .map((file) => {
+      const entryPath = path.join(dir, file)
+      return {
+        name: path.basename(file, '.json'),
+        publicKey: readKeystoreFile(entryPath).publicKey,
+        path: entryPath,
+      }
+    })
+}
+
+/**
+ * Encrypt a keypair into a new named entry
+ */
+export function importKeystoreEntry(
+  name: string,
+  keypair: Keypair,
+  passphrase: string,
+): KeystoreEntry {
+  if (!ENTRY_NAME.test(name)) {
+    throw new Error(
+      `Invalid keystore entry name: ${name} (use letters, digits, - and _)`,
+    )
+  }
+
+  const entryPath = resolveKeystorePath(name)
+  if (existsSync(entryPath)) {
+    throw new Error(`Keystore entry already exists: ${name}`)
+  }
+
+  // Every entry shares one passphrase, so one unlock covers them all
+  const [existing] = listKeystoreEntries()
+  if (existing) {
+    decryptKeystore(readKeystoreFile(existing.path), passphrase)
+  }
+
+  mkdirSync(path.dirname(entryPath), { recursive: true, mode: 0o700 })
+  writeKeystoreFile(entryPath, encryptKeypair(keypair, passphrase))
+
+  return { name, publicKey: keypair.publicKey.toBase58(), path: entryPath }
+}
+
+/**
+ * Re-encrypt every entry under a new passphrase
+ * All entries are decrypted before any is rewritten, so a wrong old
+ * passphrase leaves the keystore untouched. Every new file is written
+ * before any is renamed into place; if a crash interrupts the renames,
+ * running the same rotation again finishes it, since entries that already
+ * open with the new passphrase are accepted as-is.
+ */
+export function rotateKeystorePassphrase(
+  oldPassphrase: string,
+  newPassphrase: string,
+): KeystoreEntry[] {
+  const entries = listKeystoreEntries()
+  const keypairs = entries.map((entry) => {
+    const keystore = readKeystoreFile(entry.path)
+    try {
+      return decryptKeystore(keystore, oldPassphrase)
+    } catch (error) {
+      try {
+        return decryptKeystore(keystore, newPassphrase)
+      } catch {
+        throw error
+      }
+    }
+  })
+
+  const tmpPaths = entries.map((entry, i) => {
+    const tmpPath = `${entry.path}.tmp`
+    writeKeystoreFile(tmpPath, encryptKeypair(keypairs[i], newPassphrase))
+    return tmpPath
+  })
+  entries.forEach((entry, i) => renameSync(tmpPaths[i], entry.path))
+
+  unlockedPassphrase = newPassphrase
+  return entries
+}
+
+// ==================== UNLOCKING ====================
+
+// Passphrase entered at a prompt for this process
+let unlockedPassphrase: string | undefined
+
+/**
+ * Get the keystore passphrase: unlocked in this process, else from env
+ */
+export function getKeystorePassphrase(): string | undefined {
+  return unlockedPassphrase ?? getConfig().keystorePassphrase
+}
+
+/**
+ * Remember a passphrase for the rest of this process
+ */
+export function setKeystorePassphrase(passphrase: string): void {
+  unlockedPassphrase = passphrase
+}
+
+/**
+ * Decrypt a keystore reference with the current passphrase
+ */
+export function loadKeystoreKeypair(ref: string): Keypair {
+  const passphrase = getKeystorePassphrase()
+  if (!passphrase) {
+    throw new Error(
+      'Keystore is locked: set KEYSTORE_PASSPHRASE or unlock it at the prompt',
+    )
+  }
+  return decryptKeystore(readKeystoreFile(resolveKeystorePath(ref)), passphrase)
+}
+
+/**
+ * Unlock the keystore before any of the given signer specs are used
+ * Does nothing unless a spec refers to the keystore. Without a passphrase
+ * in env, asks for one when running on a terminal. The passphrase is
+ * checked against the first referenced entry, so a typo fails here rather
+ * than halfway through a reclaim.
+ */
+export async function unlockKeystore(
+  specs: string[],
+  interactive = process.stdin.isTTY === true,
+): Promise<void> {
+  const refs = specs
+    .filter((spec) => spec.startsWith('keystore:'))
+    .map((spec) => spec.slice('keystore:'.length))
+  if (refs.length === 0) return
+
+  let passphrase = getKeystorePassphrase()
+  if (!passphrase) {
+    if (!interactive) {
+      throw new Error('Keystore is locked: set KEYSTORE_PASSPHRASE')
+    }
+    passphrase = await promptSecret('Keystore passphrase: ')
+  }
+
+  decryptKeystore(readKeystoreFile(resolveKeystorePath(refs[0])), passphrase)
+  unlockedPassphrase = passphrase
+}
@@ -1,112 +1,190 @@
+import { PublicKey } from '@solana/web3.js'
 import { getConfig } from '../config.js'
 import { logger } from '../utils/logger.js'
+import { getCurrentSlot } from './solana.js'
+
+// Give up on a Kora request after this long
+const KORA_TIMEOUT_MS = 10_000
 
 export interface KoraNodeStatus {
   healthy: boolean
-  version: string
   url: string
   latency: number
-  slot: number
+  slot?: number // cluster slot from the Solana RPC
+  feePayer?: string
+  paymentAddress?: string
+  supportedTokens?: string[]
   error?: string
 }
 
 /**
- * Service to interact with Kora/Solana Node
+ * Node configuration as returned by Kora's getConfig
+ */
+export interface KoraConfig {
+  fee_payers?: string[]
+  validation_config: {
+    max_allowed_lamports?: number
+    max_signatures?: number
+    price_source?: string
+    allowed_programs?: string[]
+    allowed_tokens?: string[]
+    allowed_spl_paid_tokens?: string[]
+    disallowed_accounts?: string[]
+    [key: string]: unknown
+  }
+  enabled_methods?: Record<string, boolean>
+}
+
+/**
+ * Addresses returned by Kora's getPayerSigner
+ */
+export interface KoraPayerSigner {
+  signer_address: string
+  payment_address: string
+}
+
+interface JsonRpcResponse<T> {
+  result?: T
+  error?: { code: number; message: string }
+}
+
+/**
+ * JSON-RPC client for a Kora paymaster node
+ * Uses KORA_NODE_URL unless a URL is given.
  */
 export class KoraService {
+  private requestId = 0
+
+  constructor(private readonly url?: string) {}
+
+  /**
+   * The node's configuration: fee payers, validation rules, enabled methods
+   */
+  async getConfig(): Promise<KoraConfig> {
+    return this.call<KoraConfig>('getConfig')
+  }
+
+  /**
+   * Token mints the node accepts for fee payment
+   */
+  async getSupportedTokens(): Promise<string[]> {
+    const { tokens } = await this.call<{ tokens: string[] }>(
+      'getSupportedTokens',
+    )
+    return tokens
+  }
+
+  /**
+   * The address that signs (and pays for) transactions, and the address
+   * that receives token fee payments
+   */
+  async getPayerSigner(): Promise<KoraPayerSigner> {
+    return this.call<KoraPayerSigner>('getPayerSigner')
+  }
+
+  /**
+   * Every fee payer the node signs with
+   * Nodes with a signer pool list them in getConfig; older nodes only
+   * answer getPayerSigner.
+   */
+  async getFeePayers(): Promise<PublicKey[]> {
+    const config = await this.getConfig().catch(() => null)
+    if (config?.fee_payers?.length) {
+      return config.fee_payers.map((address) => new PublicKey(address))
+    }
+
+    const { signer_address } = await this.getPayerSigner()
+    return [new PublicKey(signer_address)]
+  }
+
   /**
    * Check the health and status of the configured Kora Node
-   * Performs a basic availability check since custom Kora nodes may not expose standard RPC methods.
    */
   async getNodeStatus(): Promise<KoraNodeStatus> {
-    const config = getConfig()
+    const url = this.url ?? getConfig().koraNodeUrl
 
-    if (!config.koraNodeUrl) {
+    if (!url) {
       return {
         healthy: false,
-        version: 'N/A',
         url: 'Not Configured',
         latency: 0,
-        slot: 0,
         error: 'KORA_NODE_URL not set in .env',
       }
     }
 
     const start = Date.now()
     try {
-      // Use standard Solana RPC 'getVersion' as a health check
-      const rpcBody = {
-        jsonrpc: '2.0',
-        id: 1,
-        method: 'getVersion',
-        params: [],
-      }
-
-      const response = await fetch(config.koraNodeUrl, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(rpcBody),
-      })
-
+      const signer = await this.getPayerSigner()
       const latency = Date.now() - start
 
-      // If the HTTP request fails (network error), generic catch block handles it.
-      // If HTTP status is not OK (e.g. 403, 500, etc), report as error.
-      if (!response.ok) {
-        return {
-          healthy: false,
-          version: `HTTP ${response.status}`,
-          url: config.koraNodeUrl,
-          latency,
-          slot: 0,
-          error: `HTTP Error ${response.status}: ${response.statusText}`,
-        }
-      }
-
-      interface JsonRpcResponse {
-        result?: { 'solana-core': string; feature_set?: number }
-        error?: { message: string }
-      }
-
-      const data = (await response.json()) as JsonRpcResponse
-
-      if (data.error) {
-        logger.warn(`Kora Node returned RPC error: ${data.error.message}`)
-        // Even if method fails, node is reachable. But status is technically "unhealthy" for our purpose?
-        // Let's mark it as healthy (online) but with error version info.
-        return {
-          healthy: true,
-          version: 'Active (RPC Error)',
-          url: config.koraNodeUrl,
-          latency,
-          slot: 0,
-          error: data.error.message,
-        }
-      }
-
-      const version = data.result?.['solana-core'] || 'Active'
+      const [tokens, slot] = await Promise.all([
+        this.getSupportedTokens().catch((error) => {
+          logger.debug('Kora getSupportedTokens failed:', String(error))
+          return undefined
+        }),
+        getCurrentSlot().catch(() => undefined),
+      ])
 
       return {
         healthy: true,
-        version: `v${version}`,
-        url: config.koraNodeUrl,
+        url,
         latency,
-        slot: 0,
+        slot,
+        feePayer: signer.signer_address,
+        paymentAddress: signer.payment_address,
+        supportedTokens: tokens,
       }
     } catch (error) {
-      logger.error('Failed to connect to Kora Node:', error)
+      logger.error('Failed to reach Kora Node:', String(error))
       return {
         healthy: false,
-        version: 'Unreachable',
-        url: config.koraNodeUrl,
+        url,
         latency: Date.now() - start,
-        slot: 0,
         error: error instanceof Error ? error.message : String(error),
       }
     }
   }
+
+  /**
+   * Send one JSON-RPC request and return its result
+   * Throws on network, HTTP and JSON-RPC errors alike.
+   */
+  private async call<T>(method: string, params: unknown[] = []): Promise<T> {
+    const url = this.url ?? getConfig().koraNodeUrl
+    if (!url) {
+      throw new Error('KORA_NODE_URL not set in .env')
+    }
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        jsonrpc: '2.0',
+        id: ++this.requestId,
+        method,
+        params,
+      }),
+      signal: AbortSignal.timeout(KORA_TIMEOUT_MS),
+    })
+
+    if (!response.ok) {
+      throw new Error(
+        `Kora ${method}: HTTP ${response.status} ${response.statusText}`,
+      )
+    }
+
+    const data = (await response.json()) as JsonRpcResponse<T>
+    if (data.error) {
+      throw new Error(`Kora ${method}: ${data.error.message}`)
+    }
+    if (data.result === undefined) {
+      throw new Error(`Kora ${method}: empty response`)
+    }
+
+    return data.result
+  }
 }
 
 // Export singleton
@@ -0,0 +1,170 @@
+import { getConfig } from '../config.js'
+import { sleep } from '../utils/helpers.js'
+import { logger } from '../utils/logger.js'
+
+/**
+ * RPC methods grouped by how providers tend to budget them
+ * - send: transaction submission and simulation
+ * - history: signature and transaction history lookups
+ * - scan: account scans and bulk account reads
+ * - default: everything else
+ */
+export type RpcMethodClass = 'send' | 'history' | 'scan' | 'default'
+
+export const RPC_METHOD_CLASSES: RpcMethodClass[] = [
+  'send',
+  'history',
+  'scan',
+  'default',
+]
+
+const METHOD_CLASSES: Record<string, RpcMethodClass> = {
+  sendTransaction: 'send',
+  simulateTransaction: 'send',
+  getSignaturesForAddress: 'history',
+  getTransaction: 'history',
+  getSignatureStatuses: 'history',
+  getBlock: 'history',
+  getProgramAccounts: 'scan',
+  getTokenAccountsByOwner: 'scan',
+  getMultipleAccounts: 'scan',
+}
+
+// 429s are retried in place at most this many times
+const MAX_RATE_LIMIT_RETRIES = 3
+// Backoff for a 429 without a Retry-After header
+const RATE_LIMIT_BACKOFF_MS = 500
+// Longer Retry-After waits are better spent failing over to another endpoint
+const MAX_RETRY_AFTER_MS = 10_000
+
+/**
+ * Token bucket holding up to one second's worth of requests
+ * Callers reserve a token and wait until it would have refilled, so
+ * concurrent callers queue in order instead of bursting.
+ */
+class TokenBucket {
+  private tokens: number
+  private updatedAt = Date.now()
+
+  constructor(private readonly perSecond: number) {
+    this.tokens = perSecond
+  }
+
+  async take(): Promise<void> {
+    const now = Date.now()
+    // updatedAt is in the future while paused; nothing refills until then
+    if (now > this.updatedAt) {
+      this.tokens = Math.min(
+        this.perSecond,
+        this.tokens + ((now - this.updatedAt) / 1000) * this.perSecond,
+      )
+      this.updatedAt = now
+    }
+
+    this.tokens -= 1
+    const waitMs =
+      this.updatedAt -
+      now +
+      (this.tokens < 0 ? (-this.tokens / this.perSecond) * 1000 : 0)
+    if (waitMs > 0) await sleep(waitMs)
+  }
+
+  /**
+   * Hold all requests for `ms`, then refill from empty
+   */
+  pause(ms: number): void {
+    this.tokens = Math.min(this.tokens, 0)
+    this.updatedAt = Math.max(this.updatedAt, Date.now() + ms)
+  }
+}
+
+/**
+ * Client-side rate limiter for one RPC endpoint
+ * Each method class has its own token bucket at RPC_RATE_LIMIT requests
+ * per second (overridden per class by RPC_RATE_LIMITS; 0 means no limit).
+ * A 429 pauses its class for the Retry-After the server asks for and is
+ * retried in place; a long or repeated 429 is passed on so the caller can
+ * fail over.
+ */
+export class RpcRateLimiter {
+  private buckets = new Map<RpcMethodClass, TokenBucket | null>()
+  /** 429 responses received */
+  rateLimited = 0
+
+  constructor(private readonly url: string) {}
+
+  /**
+   * Drop-in replacement for `fetch`, for the Connection `fetch` option
+   */
+  fetch = async (
+    input: Parameters<typeof fetch>[0],
+    init?: Parameters<typeof fetch>[1],
+  ): Promise<Response> => {
+    const methodClass = classifyRequest(init?.body)
+    const bucket = this.getBucket(methodClass)
+
+    for (let attempt = 0; ; attempt++) {
+      await bucket?.take()
+      const response = await fetch(input, init)
+      if (response.status !== 429) return response
+
+      this.rateLimited++
+      const waitMs =
+        parseRetryAfter(response.headers.get('retry-after')) ??
+        RATE_LIMIT_BACKOFF_MS * 2 ** attempt
+      if (attempt >= MAX_RATE_LIMIT_RETRIES || waitMs > MAX_RETRY_AFTER_MS) {
+        return response
+      }
+
+      await response.body?.cancel()
+      logger.debug(
+        `RPC ${this.url} rate limited ${methodClass} requests, retrying in ${waitMs}ms`,
+      )
+      if (bucket) {
+        bucket.pause(waitMs)
+      } else {
+        await sleep(waitMs)
+      }
+    }
+  }
+
+  private getBucket(methodClass: RpcMethodClass): TokenBucket | null {
+    if (!this.buckets.has(methodClass)) {
+      const { rpcRateLimit, rpcRateLimits } = getConfig()
+      const perSecond = rpcRateLimits[methodClass] ?? rpcRateLimit
+      this.buckets.set(
+        methodClass,
+        perSecond > 0 ? new TokenBucket(perSecond) : null,
+      )
+    }
+    return this.buckets.get(methodClass)!
+  }
+}
+
+/**
+ * Method class of a JSON-RPC request body (a batch counts as its first call)
+ */
+function classifyRequest(body: unknown): RpcMethodClass {
+  if (typeof body !== 'string') return 'default'
+
+  try {
+    const request = JSON.parse(body)
+    const method = Array.isArray(request) ? request[0]?.method : request.method
+    return METHOD_CLASSES[method] ?? 'default'
+  } catch {
+    return 'default'
+  }
+}
+
+/**
+ * Milliseconds to wait from a Retry-After header (seconds or an HTTP date)
+ */
+function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined
+
+  const seconds = Number(header)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+
+  const date = Date.parse(header)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
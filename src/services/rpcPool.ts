@@ -0,0 +1,294 @@
+import { Connection } from '@solana/web3.js'
+import { getConfig } from '../config.js'
+import { classifyError } from '../utils/helpers.js'
+import { logger } from '../utils/logger.js'
+import { RpcRateLimiter } from './rateLimiter.js'
+
+/**
+ * Health of one RPC endpoint as seen by the pool
+ */
+export interface EndpointHealth {
+  url: string
+  healthy: boolean
+  pinned: boolean // sends go to this endpoint
+  latencyMs: number | null // moving average over recent requests
+  errorRate: number // moving average, 0..1
+  slot: number | null // as of the last health check
+  slotLag: number | null // slots behind the most advanced endpoint
+  requests: number
+  failures: number
+  rateLimited: number // 429 responses received
+  lastError?: string
+  checkedAt?: string
+}
+
+interface Endpoint {
+  url: string
+  connection: Connection
+  limiter: RpcRateLimiter
+  latencyMs: number | null
+  errorRate: number
+  slot: number | null
+  slotLag: number | null
+  requests: number
+  failures: number
+  lastError?: string
+  checkedAt?: Date
+}
+
+// Weight of the newest sample in the latency and error moving averages
+const LATENCY_SMOOTHING = 0.3
+const ERROR_SMOOTHING = 0.2
+
+// An endpoint is unhealthy past either limit
+const MAX_ERROR_RATE = 0.5
+const MAX_SLOT_LAG = 50
+
+// Score cost of one slot of lag, in milliseconds of latency
+const SLOT_LAG_PENALTY_MS = 20
+
+// Reads refresh slot data in the background at most this often
+const HEALTH_CHECK_INTERVAL_MS = 60_000
+
+/**
+ * Pool of RPC endpoints scored by latency, error rate and slot lag
+ * Reads go to the best-scoring endpoint and fail over to the next on error.
+ * Sends are pinned to one healthy endpoint, so a transaction is sent,
+ * rebroadcast and confirmed against the same node; the pin only moves when
+ * that endpoint turns unhealthy. Endpoints are SOLANA_RPC_URL followed by
+ * SOLANA_RPC_URLS, and are tried in that order until there is data to rank
+ * them by.
+ */
+export class RpcPool {
+  private endpoints: Endpoint[] | null = null
+  private pinned: Endpoint | null = null
+  private lastHealthCheck = 0
+  private checking: Promise<EndpointHealth[]> | null = null
+
+  /**
+   * Run a read, failing over through the endpoints best-first
+   * Throws the last endpoint's error if every endpoint fails. Permanent
+   * errors (a bad pubkey, say) are thrown at once and don't count against
+   * the endpoint.
+   */
+  async read<T>(fn: (conn: Connection) => Promise<T>): Promise<T> {
+    const endpoints = this.getEndpoints()
+    if (
+      endpoints.length > 1 &&
+      Date.now() - this.lastHealthCheck > HEALTH_CHECK_INTERVAL_MS
+    ) {
+      this.checkHealth().catch(() => {})
+    }
+
+    let lastError: unknown
+    for (const endpoint of this.ranked()) {
+      const start = Date.now()
+      try {
+        const result = await fn(endpoint.connection)
+        this.record(endpoint, Date.now() - start)
+        return result
+      } catch (error) {
+        if (classifyError(error) === 'permanent') {
+          this.record(endpoint, Date.now() - start)
+          throw error
+        }
+        lastError = error
+        this.record(endpoint, Date.now() - start, error)
+        if (endpoints.length > 1) {
+          logger.debug(`RPC read failed on ${endpoint.url}:`, String(error))
+        }
+      }
+    }
+
+    throw lastError
+  }
+
+  /**
+   * The connection sends are pinned to
+   */
+  sendConnection(): Connection {
+    const endpoints = this.getEndpoints()
+    if (this.pinned && this.isHealthy(this.pinned)) {
+      return this.pinned.connection
+    }
+
+    const best = this.ranked()[0]
+    if (this.pinned && best !== this.pinned) {
+      logger.warn(
+        `RPC ${this.pinned.url} is unhealthy, pinning sends to ${best.url}`,
+      )
+    } else if (!this.pinned && endpoints.length > 1) {
+      logger.debug(`Pinning sends to ${best.url}`)
+    }
+
+    this.pinned = best
+    return best.connection
+  }
+
+  /**
+   * Probe every endpoint's slot and latency
+   */
+  async checkHealth(): Promise<EndpointHealth[]> {
+    this.checking ??= this.probe().finally(() => {
+      this.checking = null
+    })
+    return this.checking
+  }
+
+  /**
+   * Genesis hash reported by each reachable endpoint, in configuration order
+   */
+  async getGenesisHashes(): Promise<{ url: string; genesisHash: string }[]> {
+    const results = await Promise.all(
+      this.getEndpoints().map(async (endpoint) => {
+        try {
+          const genesisHash = await endpoint.connection.getGenesisHash()
+          return [{ url: endpoint.url, genesisHash }]
+        } catch (error) {
+          logger.warn(
+            `Could not read the genesis hash of ${endpoint.url}:`,
+            String(error),
+          )
+          return []
+        }
+      }),
+    )
+    return results.flat()
+  }
+
+  /**
+   * Current health of every endpoint, best first
+   */
+  getStatus(): EndpointHealth[] {
+    return this.ranked().map((endpoint) => ({
+      url: endpoint.url,
+      healthy: this.isHealthy(endpoint),
+      pinned: endpoint === this.pinned,
+      latencyMs:
+        endpoint.latencyMs === null ? null : Math.round(endpoint.latencyMs),
+      errorRate: Math.round(endpoint.errorRate * 100) / 100,
+      slot: endpoint.slot,
+      slotLag: endpoint.slotLag,
+      requests: endpoint.requests,
+      failures: endpoint.failures,
+      rateLimited: endpoint.limiter.rateLimited,
+      lastError: endpoint.lastError,
+      checkedAt: endpoint.checkedAt?.toISOString(),
+    }))
+  }
+
+  /**
+   * Forget all endpoints (after the configuration changes)
+   */
+  reset(): void {
+    this.endpoints = null
+    this.pinned = null
+    this.lastHealthCheck = 0
+  }
+
+  private getEndpoints(): Endpoint[] {
+    if (this.endpoints) return this.endpoints
+
+    const config = getConfig()
+    const urls = [...new Set([config.rpcUrl, ...config.rpcUrls])]
+    this.endpoints = urls.map((url) => {
+      const limiter = new RpcRateLimiter(url)
+      return {
+        url,
+        // The limiter handles 429s, honouring Retry-After
+        connection: new Connection(url, {
+          commitment: 'confirmed',
+          fetch: limiter.fetch,
+          disableRetryOnRateLimit: true,
+        }),
+        limiter,
+        latencyMs: null,
+        errorRate: 0,
+        slot: null,
+        slotLag: null,
+        requests: 0,
+        failures: 0,
+      }
+    })
+    logger.debug(`Connected to Solana RPC: ${urls.join(', ')}`)
+
+    return this.endpoints
+  }
+
+  private async probe(): Promise<EndpointHealth[]> {
+    const endpoints = this.getEndpoints()
+    this.lastHealthCheck = Date.now()
+
+    await Promise.all(
+      endpoints.map(async (endpoint) => {
+        const start = Date.now()
+        try {
+          endpoint.slot = await endpoint.connection.getSlot()
+          this.record(endpoint, Date.now() - start)
+        } catch (error) {
+          endpoint.slot = null
+          this.record(endpoint, Date.now() - start, error)
+        }
+        endpoint.checkedAt = new Date()
+      }),
+    )
+
+    const slots = endpoints.flatMap((e) => (e.slot === null ? [] : [e.slot]))
+    const tip = slots.length > 0 ? Math.max(...slots) : null
+    for (const endpoint of endpoints) {
+      endpoint.slotLag =
+        tip === null || endpoint.slot === null ? null : tip - endpoint.slot
+    }
+
+    return this.getStatus()
+  }
+
+  private record(endpoint: Endpoint, latencyMs: number, error?: unknown): void {
+    endpoint.requests++
+    endpoint.errorRate =
+      endpoint.errorRate * (1 - ERROR_SMOOTHING) + (error ? ERROR_SMOOTHING : 0)
+
+    if (error) {
+      endpoint.failures++
+      endpoint.lastError =
+        error instanceof Error ? error.message : String(error)
+      return
+    }
+    endpoint.latencyMs =
+      endpoint.latencyMs === null
+        ? latencyMs
+        : endpoint.latencyMs * (1 - LATENCY_SMOOTHING) +
+          latencyMs * LATENCY_SMOOTHING
+  }
+
+  private isHealthy(endpoint: Endpoint): boolean {
+    // Unreachable at the last health check
+    if (endpoint.checkedAt && endpoint.slot === null) return false
+
+    return (
+      endpoint.errorRate < MAX_ERROR_RATE &&
+      (endpoint.slotLag ?? 0) <= MAX_SLOT_LAG
+    )
+  }
+
+  /**
+   * Endpoints best first: healthy before unhealthy, then by score
+   * Unmeasured endpoints rank last and ties keep configuration order, so
+   * the primary is used until health checks have measured the others.
+   */
+  private ranked(): Endpoint[] {
+    const score = (endpoint: Endpoint) =>
+      (endpoint.latencyMs ?? Number.MAX_SAFE_INTEGER) *
+        (1 + endpoint.errorRate * 4) +
+      (endpoint.slotLag ?? 0) * SLOT_LAG_PENALTY_MS
+
+    return [...this.getEndpoints()].sort(
+      (a, b) =>
+        Number(this.isHealthy(b)) - Number(this.isHealthy(a)) ||
+        score(a) - score(b),
+    )
+  }
+}
+
+// Export singleton instance
+export const rpcPool = new RpcPool()
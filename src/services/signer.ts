@@ -0,0 +1,210 @@
+import { Keypair, PublicKey, Transaction } from '@solana/web3.js'
+import bs58 from 'bs58'
+import { getConfig, loadOperatorKeypair } from '../config.js'
+import { logger } from '../utils/logger.js'
+import { loadKeystoreKeypair } from './keystore.js'
+
+/**
+ * Signs reclaim transactions on behalf of an operator
+ * Implementations may hold the key in memory or delegate to a remote
+ * service, so callers never touch secret key bytes directly.
+ */
+export interface Signer {
+  readonly publicKey: PublicKey
+  /** Where the key comes from, safe to log (never contains secrets) */
+  readonly source: string
+  /** Add this signer's signature; blockhash and fee payer must be set */
+  signTransaction(transaction: Transaction): Promise<void>
+}
+
+/**
+ * Signer backed by an in-memory keypair (file, env secret or keystore)
+ */
+export class KeypairSigner implements Signer {
+  constructor(
+    private readonly keypair: Keypair,
+    readonly source: string,
+  ) {}
+
+  get publicKey(): PublicKey {
+    return this.keypair.publicKey
+  }
+
+  async signTransaction(transaction: Transaction): Promise<void> {
+    transaction.partialSign(this.keypair)
+  }
+}
+
+// How long to wait for the remote signing service before giving up
+const REMOTE_SIGNER_TIMEOUT_MS = 10_000
+
+/**
+ * Signer that delegates to a remote HTTP signing service
+ *
+ * Protocol (JSON over HTTP, optional bearer token):
+ * - GET  {url}/publicKey -> { publicKey: base58 }
+ * - POST {url}/sign { publicKey: base58, message: base64 } -> { signature: base58 }
+ *
+ * The message is the serialized transaction message. Returned signatures
+ * are verified locally before the transaction is used.
+ */
+export class RemoteSigner implements Signer {
+  private constructor(
+    readonly url: string,
+    readonly publicKey: PublicKey,
+    private readonly token?: string,
+  ) {}
+
+  get source(): string {
+    return `remote ${this.url}`
+  }
+
+  /**
+   * Connect to a signing service and fetch the public key it signs for
+   */
+  static async connect(url: string, token?: string): Promise<RemoteSigner> {
+    const baseUrl = url.replace(/\/+$/, '')
+    const { publicKey } = await remoteRequest<{ publicKey: string }>(
+      `${baseUrl}/publicKey`,
+      token,
+    )
+    return new RemoteSigner(baseUrl, new PublicKey(publicKey), token)
+  }
+
+  async signTransaction(transaction: Transaction): Promise<void> {
+    const message = transaction.serializeMessage()
+    const { signature } = await remoteRequest<{ signature: string }>(
+      `${this.url}/sign`,
+      this.token,
+      {
+        publicKey: this.publicKey.toBase58(),
+        message: message.toString('base64'),
+      },
+    )
+
+    transaction.addSignature(
+      this.publicKey,
+      Buffer.from(bs58.decode(signature)),
+    )
+    if (!transaction.verifySignatures(false)) {
+      throw new Error(`Remote signer ${this.url} returned an invalid signature`)
+    }
+  }
+}
+
+/**
+ * Call the remote signing service and parse its JSON response
+ */
+async function remoteRequest<T>(
+  url: string,
+  token?: string,
+  body?: unknown,
+): Promise<T> {
+  const headers: Record<string, string> = { Accept: 'application/json' }
+  if (token) headers.Authorization = `Bearer ${token}`
+  if (body !== undefined) headers['Content-Type'] = 'application/json'
+
+  const response = await fetch(url, {
+    method: body === undefined ? 'GET' : 'POST',
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body),
+    signal: AbortSignal.timeout(REMOTE_SIGNER_TIMEOUT_MS),
+  })
+
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '')
+    throw new Error(
+      `Remote signer request failed: HTTP ${response.status} ${detail}`.trim(),
+    )
+  }
+
+  return (await response.json()) as T
+}
+
+/**
+ * Load a keypair from a local signer spec
+ * Supported specs:
+ * - `env:NAME`        base58 secret key in environment variable NAME
+ * - `keystore:<name>` keystore entry (or `keystore:<path>` to a keystore file)
+ * - `file:<path>` or a bare path: Solana CLI JSON byte-array keypair
+ */
+export function loadLocalKeypair(spec: string): Keypair {
+  if (spec.startsWith('env:')) {
+    const name = spec.slice('env:'.length)
+    const secret = process.env[name]
+    if (!secret) {
+      throw new Error(`Environment variable ${name} is not set`)
+    }
+    return Keypair.fromSecretKey(bs58.decode(secret.trim()))
+  }
+
+  if (spec.startsWith('keystore:')) {
+    return loadKeystoreKeypair(spec.slice('keystore:'.length))
+  }
+
+  const keypairPath = spec.startsWith('file:')
+    ? spec.slice('file:'.length)
+    : spec
+  return Keypair.fromSecretKey(loadOperatorKeypair(keypairPath))
+}
+
+/**
+ * Check if a signer spec points at a remote signing service
+ */
+export function isRemoteSignerSpec(spec: string): boolean {
+  return /^https?:\/\//.test(spec)
+}
+
+/**
+ * Create a signer from a spec: any local spec accepted by
+ * loadLocalKeypair, or an http(s) URL of a remote signing service
+ */
+export async function createSigner(spec: string): Promise<Signer> {
+  if (isRemoteSignerSpec(spec)) {
+    return RemoteSigner.connect(spec, getConfig().remoteSignerToken)
+  }
+
+  const source = spec.startsWith('env:')
+    ? `env ${spec.slice('env:'.length)}`
+    : spec.startsWith('keystore:')
+      ? `keystore ${spec.slice('keystore:'.length)}`
+      : `file ${spec.replace(/^file:/, '')}`
+  return new KeypairSigner(loadLocalKeypair(spec), source)
+}
+
+const signers = new Map<string, Promise<Signer>>()
+
+/**
+ * Get the signer for a spec, defaulting to the configured operator signer
+ * Signers are created once per spec and reused.
+ */
+export function getSigner(spec?: string): Promise<Signer> {
+  const config = getConfig()
+  const resolvedSpec =
+    spec || config.operatorSigner || config.operatorKeypairPath
+
+  let signer = signers.get(resolvedSpec)
+  if (!signer) {
+    signer = createSigner(resolvedSpec).then((created) => {
+      logger.debug(
+        `Operator address: ${created.publicKey.toBase58()} (${created.source})`,
+      )
+      return created
+    })
+    // Don't cache failures, so a fixed env or a restarted service is picked up
+    signer.catch(() => signers.delete(resolvedSpec))
+    signers.set(resolvedSpec, signer)
+  }
+  return signer
+}
+
+/**
+ * Use a specific signer for a spec (or the default operator when omitted)
+ */
+export function setSigner(signer: Signer, spec?: string): void {
+  const config = getConfig()
+  signers.set(
+    spec || config.operatorSigner || config.operatorKeypairPath,
+    Promise.resolve(signer),
+  )
+}
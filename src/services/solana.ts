@@ -1,50 +1,80 @@
 import {
+  ExtensionType,
+  TOKEN_2022_PROGRAM_ID,
   TOKEN_PROGRAM_ID,
   TokenAccountNotFoundError,
   TokenInvalidAccountOwnerError,
   createCloseAccountInstruction,
-  getAccount,
+  getExtensionTypes,
+  getTransferFeeAmount,
+  unpackAccount,
 } from '@solana/spl-token'
 import {
   AccountInfo,
+  ComputeBudgetProgram,
   Connection,
-  Keypair,
+  PACKET_DATA_SIZE,
   ParsedAccountData,
+  ParsedTransactionWithMeta,
   PublicKey,
+  SendTransactionError,
+  SignatureStatus,
+  SystemProgram,
   Transaction,
-  sendAndConfirmTransaction,
+  VersionedTransaction,
 } from '@solana/web3.js'
-import { getConfig, loadOperatorKeypair } from '../config.js'
-import type { AccountType } from '../core/types.js'
-import { retry } from '../utils/helpers.js'
+import bs58 from 'bs58'
+import { getConfig } from '../config.js'
+import type {
+  AccountType,
+  SimulationErrorCode,
+  SimulationReport,
+} from '../core/types.js'
+import { chunk, retry, sleep } from '../utils/helpers.js'
 import { logger } from '../utils/logger.js'
+import { rpcPool } from './rpcPool.js'
+import type { Signer } from './signer.js'
 
-let connection: Connection | null = null
-let operatorKeypair: Keypair | null = null
+/**
+ * Token programs whose accounts we can scan and close
+ */
+export const TOKEN_PROGRAM_IDS = [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID]
 
 /**
- * Get or create a Solana connection
+ * Check if a program id is one of the SPL token programs
+ */
+export function isTokenProgram(programId: PublicKey): boolean {
+  return TOKEN_PROGRAM_IDS.some((id) => id.equals(programId))
+}
+
+/**
+ * Get the connection sends are pinned to
+ * Everything from fetching a blockhash to confirming a transaction runs on
+ * this one endpoint; reads go through `read` and may fail over.
  */
 export function getConnection(): Connection {
-  if (!connection) {
-    const config = getConfig()
-    connection = new Connection(config.rpcUrl, 'confirmed')
-    logger.debug(`Connected to Solana RPC: ${config.rpcUrl}`)
-  }
-  return connection
+  return rpcPool.sendConnection()
 }
 
 /**
- * Get the operator keypair for signing transactions
+ * Run a read on the RPC pool with retry logic
+ * Each attempt fails over through every endpoint before backing off.
  */
-export function getOperatorKeypair(): Keypair {
-  if (!operatorKeypair) {
-    const config = getConfig()
-    const secretKey = loadOperatorKeypair(config.operatorKeypairPath)
-    operatorKeypair = Keypair.fromSecretKey(secretKey)
-    logger.debug(`Operator address: ${operatorKeypair.publicKey.toBase58()}`)
-  }
-  return operatorKeypair
+function read<T>(fn: (conn: Connection) => Promise<T>): Promise<T> {
+  return retry(() => rpcPool.read(fn))
+}
+
+/**
+ * Create a standalone connection for WebSocket subscriptions
+ * Kept apart from the shared connection so a dead socket can be replaced
+ * without touching in-flight requests.
+ */
+export function createSubscriptionConnection(): Connection {
+  const config = getConfig()
+  return new Connection(getConnection().rpcEndpoint, {
+    commitment: 'confirmed',
+    wsEndpoint: config.wsUrl,
+  })
 }
 
 /**
@@ -53,22 +83,55 @@ export function getOperatorKeypair(): Keypair {
 export async function getAccountInfo(
   pubkey: PublicKey,
 ): Promise<AccountInfo<Buffer> | null> {
-  const conn = getConnection()
-  return retry(async () => {
-    return conn.getAccountInfo(pubkey)
-  })
+  return read((conn) => conn.getAccountInfo(pubkey))
 }
 
 /**
- * Get multiple accounts info
+ * Maximum number of accounts the RPC accepts per getMultipleAccounts call
+ */
+export const MAX_MULTIPLE_ACCOUNTS = 100
+
+/**
+ * Get multiple accounts info, split into requests of MAX_MULTIPLE_ACCOUNTS
+ * Results are returned in the same order as the input pubkeys.
  */
 export async function getMultipleAccountsInfo(
   pubkeys: PublicKey[],
 ): Promise<(AccountInfo<Buffer> | null)[]> {
-  const conn = getConnection()
-  return retry(async () => {
-    return conn.getMultipleAccountsInfo(pubkeys)
-  })
+  const results: (AccountInfo<Buffer> | null)[] = []
+
+  for (const batch of chunk(pubkeys, MAX_MULTIPLE_ACCOUNTS)) {
+    const infos = await read((conn) => conn.getMultipleAccountsInfo(batch))
+    results.push(...infos)
+  }
+
+  return results
+}
+
+/**
+ * Account info together with the slot it was read at
+ */
+export interface AccountSnapshot {
+  info: AccountInfo<Buffer> | null
+  slot: number
+}
+
+/**
+ * Get info for many accounts with the slot each one was read at
+ */
+export async function getMultipleAccountsSnapshot(
+  pubkeys: PublicKey[],
+): Promise<AccountSnapshot[]> {
+  const results: AccountSnapshot[] = []
+
+  for (const batch of chunk(pubkeys, MAX_MULTIPLE_ACCOUNTS)) {
+    const { context, value } = await read((conn) =>
+      conn.getMultipleAccountsInfoAndContext(batch),
+    )
+    results.push(...value.map((info) => ({ info, slot: context.slot })))
+  }
+
+  return results
 }
 
 /**
@@ -87,7 +150,7 @@ export function detectAccountType(
 ): AccountType {
   const owner = accountInfo.owner
 
-  if (owner.equals(TOKEN_PROGRAM_ID)) {
+  if (isTokenProgram(owner)) {
     return 'token_account'
   }
 
@@ -109,26 +172,53 @@ export function detectAccountType(
 }
 
 /**
- * Get token account data (balance, owner, mint)
+ * Decoded token account state, for either token program
  */
-export async function getTokenAccountData(pubkey: PublicKey): Promise<{
+export interface TokenAccountData {
   mint: PublicKey
   owner: PublicKey
   amount: bigint
   lamports: number
-} | null> {
+  programId: PublicKey
+  extensions: ExtensionType[]
+  /** Set when a Token-2022 extension prevents the account from being closed */
+  closeBlocker?: string
+}
+
+/**
+ * Decode raw account info as a token account (extension-aware)
+ * Returns null if the account is not owned by a token program.
+ */
+export function decodeTokenAccount(
+  pubkey: PublicKey,
+  info: AccountInfo<Buffer>,
+): TokenAccountData | null {
+  if (!isTokenProgram(info.owner)) {
+    return null
+  }
+
   try {
-    const conn = getConnection()
-    const account = await getAccount(conn, pubkey)
+    const account = unpackAccount(pubkey, info, info.owner)
+    const extensions = account.tlvData.length
+      ? getExtensionTypes(account.tlvData)
+      : []
 
-    const info = await getAccountInfo(pubkey)
-    const lamports = info?.lamports || 0
+    let closeBlocker: string | undefined
+    const transferFee = getTransferFeeAmount(account)
+    if (transferFee && transferFee.withheldAmount > 0n) {
+      closeBlocker =
+        `Account holds ${transferFee.withheldAmount} withheld transfer fee tokens. ` +
+        'Harvest them to the mint before closing.'
+    }
 
     return {
       mint: account.mint,
       owner: account.owner,
       amount: account.amount,
-      lamports,
+      lamports: info.lamports,
+      programId: info.owner,
+      extensions,
+      closeBlocker,
     }
   } catch (error) {
     if (
@@ -141,16 +231,517 @@ export async function getTokenAccountData(pubkey: PublicKey): Promise<{
   }
 }
 
+/**
+ * Get token account data (balance, owner, mint, token program)
+ */
+export async function getTokenAccountData(
+  pubkey: PublicKey,
+): Promise<TokenAccountData | null> {
+  const info = await getAccountInfo(pubkey)
+  if (!info) {
+    return null
+  }
+  return decodeTokenAccount(pubkey, info)
+}
+
+/**
+ * A token account to close, with the program that owns it
+ */
+export interface CloseTarget {
+  pubkey: PublicKey
+  programId: PublicKey
+}
+
+/**
+ * Compute unit limit and price attached to a transaction
+ */
+export interface ComputeBudget {
+  unitLimit: number
+  microLamports: number
+}
+
+// Rough compute cost of one close instruction (Token-2022 costs more than SPL Token)
+const COMPUTE_UNITS_PER_CLOSE = 5_000
+// Headroom for the compute budget instructions themselves
+const COMPUTE_UNITS_OVERHEAD = 1_000
+// Most compute units a transaction may request
+const MAX_COMPUTE_UNIT_LIMIT = 1_400_000
+// Margin on measured compute units, as a fraction
+const COMPUTE_UNITS_MARGIN = 0.1
+// Percentile of recent prioritization fees used in dynamic mode
+const DYNAMIC_FEE_PERCENTILE = 0.75
+
+/**
+ * Resolve the compute budget for a transaction closing the given targets
+ * Uses COMPUTE_UNIT_LIMIT / PRIORITY_FEE, querying recent fees in dynamic mode.
+ */
+export async function getComputeBudget(
+  targets: CloseTarget[],
+): Promise<ComputeBudget> {
+  const config = getConfig()
+
+  const unitLimit =
+    config.computeUnitLimit > 0
+      ? config.computeUnitLimit
+      : targets.length * COMPUTE_UNITS_PER_CLOSE + COMPUTE_UNITS_OVERHEAD
+
+  const microLamports =
+    config.priorityFee === 'dynamic'
+      ? await getDynamicPriorityFee(targets.map((t) => t.pubkey))
+      : config.priorityFee
+
+  return { unitLimit, microLamports }
+}
+
+/**
+ * Derive a priority fee from recent fees paid for the given writable accounts
+ */
+export async function getDynamicPriorityFee(
+  writableAccounts: PublicKey[],
+): Promise<number> {
+  const recent = await read((conn) =>
+    conn.getRecentPrioritizationFees({
+      lockedWritableAccounts: writableAccounts,
+    }),
+  )
+
+  if (recent.length === 0) {
+    return 0
+  }
+
+  const fees = recent.map((f) => f.prioritizationFee).sort((a, b) => a - b)
+  const index = Math.min(
+    fees.length - 1,
+    Math.floor(fees.length * DYNAMIC_FEE_PERCENTILE),
+  )
+  return fees[index]
+}
+
+/**
+ * Maximum priority fee in lamports a compute budget can cost
+ */
+export function priorityFeeLamports(budget: ComputeBudget): number {
+  return Math.ceil((budget.unitLimit * budget.microLamports) / 1_000_000)
+}
+
+/**
+ * A durable nonce used in place of a recent blockhash, so a transaction
+ * can be signed offline and broadcast much later
+ */
+export interface DurableNonce {
+  nonceAccount: PublicKey
+  authority: PublicKey
+  nonce: string
+}
+
+/**
+ * Read the current value and authority of a nonce account
+ */
+export async function getDurableNonce(
+  nonceAccount: PublicKey,
+): Promise<DurableNonce> {
+  const info = await read((conn) => conn.getNonce(nonceAccount))
+
+  if (!info) {
+    throw new Error(`Nonce account not found: ${nonceAccount.toBase58()}`)
+  }
+
+  return {
+    nonceAccount,
+    authority: info.authorizedPubkey,
+    nonce: info.nonce,
+  }
+}
+
+/**
+ * Build a transaction that closes every target into the destination
+ */
+export function buildCloseTransaction(
+  targets: CloseTarget[],
+  destinationPubkey: PublicKey,
+  authorityPubkey: PublicKey,
+  budget?: ComputeBudget,
+  nonce?: DurableNonce,
+): Transaction {
+  const transaction = new Transaction()
+
+  // A durable nonce replaces the blockhash; advancing it must come first
+  if (nonce) {
+    transaction.add(
+      SystemProgram.nonceAdvance({
+        noncePubkey: nonce.nonceAccount,
+        authorizedPubkey: nonce.authority,
+      }),
+    )
+    transaction.recentBlockhash = nonce.nonce
+  }
+
+  if (budget) {
+    transaction.add(
+      ComputeBudgetProgram.setComputeUnitLimit({ units: budget.unitLimit }),
+      ComputeBudgetProgram.setComputeUnitPrice({
+        microLamports: budget.microLamports,
+      }),
+    )
+  }
+
+  for (const target of targets) {
+    transaction.add(
+      createCloseAccountInstruction(
+        target.pubkey,
+        destinationPubkey,
+        authorityPubkey,
+        [],
+        target.programId,
+      ),
+    )
+  }
+
+  transaction.feePayer = authorityPubkey
+  return transaction
+}
+
+/**
+ * Serialized size of a close transaction, including signatures
+ */
+function closeTransactionSize(
+  targets: CloseTarget[],
+  destinationPubkey: PublicKey,
+  authorityPubkey: PublicKey,
+  nonce?: DurableNonce,
+): number {
+  // Budget instructions have a fixed size, so placeholder values are fine
+  const transaction = buildCloseTransaction(
+    targets,
+    destinationPubkey,
+    authorityPubkey,
+    { unitLimit: 1, microLamports: 1 },
+    nonce,
+  )
+  // Placeholder blockhash: the size does not depend on its value
+  transaction.recentBlockhash = PublicKey.default.toBase58()
+
+  const message = transaction.compileMessage()
+  const signatureCount = message.header.numRequiredSignatures
+  return 1 + signatureCount * 64 + message.serialize().length
+}
+
+/**
+ * Group close targets so each group fits in a single transaction packet
+ */
+export function packCloseTargets<T extends CloseTarget>(
+  targets: T[],
+  destinationPubkey: PublicKey,
+  authorityPubkey: PublicKey,
+  nonce?: DurableNonce,
+): T[][] {
+  const groups: T[][] = []
+  let current: T[] = []
+
+  for (const target of targets) {
+    const candidate = [...current, target]
+    const size = closeTransactionSize(
+      candidate,
+      destinationPubkey,
+      authorityPubkey,
+      nonce,
+    )
+
+    if (current.length > 0 && size > PACKET_DATA_SIZE) {
+      groups.push(current)
+      current = [target]
+    } else {
+      current = candidate
+    }
+  }
+
+  if (current.length > 0) {
+    groups.push(current)
+  }
+
+  return groups
+}
+
+// Token program log messages that explain why a close cannot succeed
+const SIMULATION_ERROR_PATTERNS: [RegExp, SimulationErrorCode][] = [
+  [/account is frozen/i, 'account_frozen'],
+  [/owner does not match/i, 'authority_mismatch'],
+  [/withheld transfer fees|confidential balance/i, 'extension_blocks_close'],
+  [/only be closed if its balance is zero/i, 'nonzero_balance'],
+  [/exceeded CUs meter|computational budget exceeded/i, 'compute_exceeded'],
+]
+
+/**
+ * Classify a failed simulation from its program logs
+ */
+export function classifySimulationError(logs: string[]): SimulationErrorCode {
+  for (const [pattern, code] of SIMULATION_ERROR_PATTERNS) {
+    if (logs.some((line) => pattern.test(line))) {
+      return code
+    }
+  }
+  return 'simulation_failed'
+}
+
+/**
+ * Simulate a transaction
+ * Unsigned transactions run against the latest blockhash without signature
+ * checks, so no signer has to sign a transaction that may never be sent.
+ * Signed ones run exactly as they would be broadcast.
+ */
+export async function simulateTransaction(
+  transaction: Transaction,
+  signed = false,
+): Promise<SimulationReport> {
+  // Any blockhash compiles; the node replaces it with its latest one
+  transaction.recentBlockhash ??= PublicKey.default.toBase58()
+  const versioned = signed
+    ? VersionedTransaction.deserialize(transaction.serialize())
+    : new VersionedTransaction(transaction.compileMessage())
+
+  const { value } = await read((conn) =>
+    conn.simulateTransaction(versioned, {
+      sigVerify: signed,
+      replaceRecentBlockhash: !signed,
+    }),
+  )
+  const logs = value.logs ?? []
+
+  if (value.err) {
+    return {
+      success: false,
+      logs,
+      unitsConsumed: value.unitsConsumed,
+      error: JSON.stringify(value.err),
+      errorCode: classifySimulationError(logs),
+    }
+  }
+
+  return { success: true, logs, unitsConsumed: value.unitsConsumed }
+}
+
+/**
+ * Simulate a transaction, raising its compute unit limit if it ran out
+ * The per-close estimate can be too low (Token-2022 closes with extensions
+ * cost more). Then the transaction is simulated at the maximum limit to
+ * measure what it really consumes, and rebuilt with that plus a margin.
+ * Returns the final simulation and the budget the transaction was built with.
+ */
+export async function simulateWithComputeBudget(
+  build: (budget: ComputeBudget) => Transaction,
+  budget: ComputeBudget,
+): Promise<{ simulation: SimulationReport; budget: ComputeBudget }> {
+  const simulation = await simulateTransaction(build(budget))
+  if (
+    simulation.success ||
+    simulation.errorCode !== 'compute_exceeded' ||
+    budget.unitLimit >= MAX_COMPUTE_UNIT_LIMIT
+  ) {
+    return { simulation, budget }
+  }
+
+  const measured = await simulateTransaction(
+    build({ ...budget, unitLimit: MAX_COMPUTE_UNIT_LIMIT }),
+  )
+  if (!measured.success || !measured.unitsConsumed) {
+    return { simulation: measured, budget }
+  }
+
+  const raised = {
+    ...budget,
+    unitLimit: Math.min(
+      MAX_COMPUTE_UNIT_LIMIT,
+      Math.ceil(measured.unitsConsumed * (1 + COMPUTE_UNITS_MARGIN)) +
+        COMPUTE_UNITS_OVERHEAD,
+    ),
+  }
+  logger.debug(
+    `Compute limit ${budget.unitLimit} too low, raising to ${raised.unitLimit} (${measured.unitsConsumed} consumed)`,
+  )
+  return {
+    simulation: await simulateTransaction(build(raised)),
+    budget: raised,
+  }
+}
+
+/**
+ * A signed transaction, identified before it is broadcast
+ */
+export interface SignedTransaction {
+  transaction: Transaction
+  signature: string
+  blockhash: string
+  lastValidBlockHeight: number
+  nonceAccount?: PublicKey // set when blockhash is a durable nonce
+}
+
+/**
+ * Final outcome of broadcasting a signed transaction
+ * - confirmed: landed successfully
+ * - expired: never landed and its blockhash is no longer valid, so it is
+ *   safe to re-sign with a fresh blockhash
+ * - failed: landed (or was rejected in preflight) with an error
+ */
+export type SendOutcome =
+  | { status: 'confirmed'; signature: string; slot: number }
+  | { status: 'expired'; signature: string }
+  | { status: 'failed'; signature: string; error: string }
+
+// How often a pending transaction is re-sent while waiting for confirmation
+const REBROADCAST_INTERVAL_MS = 2_000
+
+// Preflight errors from a node that is behind rather than a bad transaction
+const TRANSIENT_PREFLIGHT_ERRORS = [
+  /blockhash not found/i,
+  /node is behind/i,
+  /node is unhealthy/i,
+  /minimum context slot/i,
+]
+
+/**
+ * Broadcast a signed transaction until it confirms or its blockhash expires
+ * The same signed bytes are re-sent, so rebroadcasting can never land the
+ * transaction twice.
+ */
+export async function sendSignedTransaction(
+  signed: SignedTransaction,
+): Promise<SendOutcome> {
+  const conn = getConnection()
+  const { signature } = signed
+  const rawTransaction = signed.transaction.serialize()
+
+  // First send runs preflight so obviously invalid transactions fail fast
+  try {
+    await conn.sendRawTransaction(rawTransaction, { maxRetries: 0 })
+  } catch (error) {
+    if (
+      error instanceof SendTransactionError &&
+      !TRANSIENT_PREFLIGHT_ERRORS.some((pattern) => pattern.test(error.message))
+    ) {
+      return { status: 'failed', signature, error: error.message }
+    }
+    // Network errors and a lagging node are ambiguous: keep rebroadcasting
+    // until the transaction lands or its blockhash expires
+    logger.debug(`Initial send of ${signature} errored:`, error)
+  }
+
+  for (;;) {
+    await sleep(REBROADCAST_INTERVAL_MS)
+
+    const outcome = await checkSignature(signature)
+    if (outcome) {
+      return outcome
+    }
+
+    if (await isExpired(signed)) {
+      // One last look: it may have landed just before expiry
+      return (
+        (await checkSignature(signature)) ?? { status: 'expired', signature }
+      )
+    }
+
+    try {
+      await conn.sendRawTransaction(rawTransaction, {
+        skipPreflight: true,
+        maxRetries: 0,
+      })
+    } catch (error) {
+      logger.debug(`Rebroadcast of ${signature} errored:`, error)
+    }
+  }
+}
+
+/**
+ * Check if a signed transaction can no longer land
+ * Blockhash transactions expire with block height; durable nonce
+ * transactions only once the nonce has been advanced.
+ */
+async function isExpired(signed: SignedTransaction): Promise<boolean> {
+  // Judged by the send endpoint, so a node ahead of it can't declare
+  // expired a transaction it has yet to see land
+  if (signed.nonceAccount) {
+    return (await getCurrentNonce(signed.nonceAccount)) !== signed.blockhash
+  }
+
+  return (await getBlockHeight()) > signed.lastValidBlockHeight
+}
+
+/**
+ * Map a signature's current status to a final outcome, or null if still pending
+ */
+async function checkSignature(signature: string): Promise<SendOutcome | null> {
+  const conn = getConnection()
+  const { value: status, context } = await retry(async () => {
+    return conn.getSignatureStatus(signature)
+  })
+
+  if (status?.err) {
+    return { status: 'failed', signature, error: JSON.stringify(status.err) }
+  }
+  if (
+    status?.confirmationStatus === 'confirmed' ||
+    status?.confirmationStatus === 'finalized'
+  ) {
+    return { status: 'confirmed', signature, slot: status.slot ?? context.slot }
+  }
+  return null
+}
+
+/**
+ * Close several token accounts in one transaction
+ * Callers are responsible for verifying balances and authority first.
+ * `onSigned` runs after signing but before broadcast, so the signature can
+ * be journaled and recovered if the process dies mid-flight.
+ */
+export async function closeTokenAccounts(
+  targets: CloseTarget[],
+  destinationPubkey: PublicKey,
+  authority: Signer,
+  budget?: ComputeBudget,
+  onSigned?: (signed: SignedTransaction) => void,
+): Promise<SendOutcome> {
+  const conn = getConnection()
+
+  const transaction = buildCloseTransaction(
+    targets,
+    destinationPubkey,
+    authority.publicKey,
+    budget ?? (await getComputeBudget(targets)),
+  )
+
+  const { blockhash, lastValidBlockHeight } = await retry(async () => {
+    return conn.getLatestBlockhash()
+  })
+  transaction.recentBlockhash = blockhash
+  await authority.signTransaction(transaction)
+
+  const signed: SignedTransaction = {
+    transaction,
+    signature: bs58.encode(transaction.signature!),
+    blockhash,
+    lastValidBlockHeight,
+  }
+  onSigned?.(signed)
+
+  const outcome = await sendSignedTransaction(signed)
+
+  if (outcome.status === 'confirmed') {
+    logger.debug(
+      `Closed ${targets.length} token accounts. TX: ${outcome.signature}`,
+    )
+  }
+
+  return outcome
+}
+
 /**
  * Close a token account and reclaim rent
  */
 export async function closeTokenAccount(
   tokenAccountPubkey: PublicKey,
   destinationPubkey: PublicKey,
-  authorityKeypair: Keypair,
+  authority: Signer,
 ): Promise<string> {
-  const conn = getConnection()
-
   // Verify the token account has zero balance
   const tokenData = await getTokenAccountData(tokenAccountPubkey)
   if (!tokenData) {
@@ -163,27 +754,34 @@ export async function closeTokenAccount(
     )
   }
 
+  if (tokenData.closeBlocker) {
+    throw new Error(`Cannot close token account: ${tokenData.closeBlocker}`)
+  }
+
   // Verify authority matches
-  if (!tokenData.owner.equals(authorityKeypair.publicKey)) {
+  if (!tokenData.owner.equals(authority.publicKey)) {
     throw new Error(
       `Authority mismatch. Account owner: ${tokenData.owner.toBase58()}, ` +
-        `provided authority: ${authorityKeypair.publicKey.toBase58()}`,
+        `provided authority: ${authority.publicKey.toBase58()}`,
     )
   }
 
-  // Build close instruction
-  const closeInstruction = createCloseAccountInstruction(
-    tokenAccountPubkey,
+  // Close against the program that owns the account
+  const outcome = await closeTokenAccounts(
+    [{ pubkey: tokenAccountPubkey, programId: tokenData.programId }],
     destinationPubkey,
-    authorityKeypair.publicKey,
+    authority,
   )
 
-  const transaction = new Transaction().add(closeInstruction)
-
-  // Send and confirm transaction
-  const signature = await sendAndConfirmTransaction(conn, transaction, [
-    authorityKeypair,
-  ])
+  if (outcome.status === 'expired') {
+    throw new Error(
+      `Transaction expired before confirming: ${outcome.signature}`,
+    )
+  }
+  if (outcome.status === 'failed') {
+    throw new Error(`Transaction failed: ${outcome.error}`)
+  }
+  const { signature } = outcome
 
   logger.success(
     `Closed token account ${tokenAccountPubkey.toBase58()}, ` +
@@ -193,6 +791,19 @@ export async function closeTokenAccount(
   return signature
 }
 
+/**
+ * Get a parsed transaction, including versioned ones
+ */
+export async function getParsedTransaction(
+  signature: string,
+): Promise<ParsedTransactionWithMeta | null> {
+  return read((conn) =>
+    conn.getParsedTransaction(signature, {
+      maxSupportedTransactionVersion: 0,
+    }),
+  )
+}
+
 /**
  * Get recent transactions for an account
  */
@@ -200,39 +811,146 @@ export async function getRecentSignatures(
   pubkey: PublicKey,
   limit = 10,
 ): Promise<string[]> {
-  const conn = getConnection()
-  const signatures = await conn.getSignaturesForAddress(pubkey, { limit })
+  const signatures = await read((conn) =>
+    conn.getSignaturesForAddress(pubkey, { limit }),
+  )
   return signatures.map((s) => s.signature)
 }
 
 /**
- * Get all token accounts owned by operator
+ * Get the block time of the newest transaction touching an account
+ * Returns null if the account has no signatures or no block time is known.
+ */
+export async function getLastActivityTime(
+  pubkey: PublicKey,
+): Promise<Date | null> {
+  const [latest] = await read((conn) =>
+    conn.getSignaturesForAddress(pubkey, { limit: 1 }),
+  )
+
+  if (!latest?.blockTime) {
+    return null
+  }
+  return new Date(latest.blockTime * 1000)
+}
+
+// Most signatures getSignaturesForAddress returns per call
+export const MAX_SIGNATURES_PER_PAGE = 1000
+
+/**
+ * Collect an address's successful transaction signatures, newest first
+ * Pages backwards from `before` (or the latest transaction) until `until`,
+ * the start of history, or `limit` signatures. `oldest` is the last
+ * signature walked past (failed or not); `complete` is false when the
+ * limit cut the walk short.
+ */
+export async function getSignatureHistory(
+  address: PublicKey,
+  options: { before?: string; until?: string; limit?: number },
+): Promise<{ signatures: string[]; oldest?: string; complete: boolean }> {
+  const limit = options.limit ?? Infinity
+  const signatures: string[] = []
+  let oldest: string | undefined
+  let seen = 0
+
+  while (seen < limit) {
+    const page = await read((conn) =>
+      conn.getSignaturesForAddress(address, {
+        before: oldest ?? options.before,
+        until: options.until,
+        limit: Math.min(MAX_SIGNATURES_PER_PAGE, limit - seen),
+      }),
+    )
+    if (page.length === 0) return { signatures, oldest, complete: true }
+
+    seen += page.length
+    // Failed transactions can't have created anything
+    signatures.push(...page.filter((s) => !s.err).map((s) => s.signature))
+    oldest = page[page.length - 1].signature
+  }
+
+  return { signatures, oldest, complete: false }
+}
+
+/**
+ * Get all token accounts owned by operator, across both token programs
+ */
+export async function getOperatorTokenAccounts(
+  owner: PublicKey,
+): Promise<{ pubkey: PublicKey; account: AccountInfo<ParsedAccountData> }[]> {
+  const accounts: {
+    pubkey: PublicKey
+    account: AccountInfo<ParsedAccountData>
+  }[] = []
+
+  for (const programId of TOKEN_PROGRAM_IDS) {
+    const result = await read((conn) =>
+      conn.getParsedTokenAccountsByOwner(owner, { programId }),
+    )
+    accounts.push(...result.value)
+  }
+
+  return accounts
+}
+
+/**
+ * Look up the status of transactions, including ones outside the recent cache
  */
-export async function getOperatorTokenAccounts(): Promise<
-  { pubkey: PublicKey; account: AccountInfo<ParsedAccountData> }[]
-> {
+export async function getSignatureStatuses(
+  signatures: string[],
+): Promise<(SignatureStatus | null)[]> {
   const conn = getConnection()
-  const operator = getOperatorKeypair()
+  const { value } = await retry(async () => {
+    return conn.getSignatureStatuses(signatures, {
+      searchTransactionHistory: true,
+    })
+  })
+  return value
+}
 
-  const result = await conn.getParsedTokenAccountsByOwner(operator.publicKey, {
-    programId: TOKEN_PROGRAM_ID,
+/**
+ * Get current block height on the send endpoint
+ * Read from the same node as getSignatureStatuses, so a failover read from
+ * a node further ahead can't expire a transaction the send endpoint could
+ * still land.
+ */
+export async function getBlockHeight(): Promise<number> {
+  const conn = getConnection()
+  return retry(async () => {
+    return conn.getBlockHeight()
   })
+}
 
-  return result.value
+/**
+ * Get a durable nonce account's current nonce on the send endpoint
+ * Read from the same node as getSignatureStatuses, for the same reason as
+ * getBlockHeight.
+ */
+export async function getCurrentNonce(
+  nonceAccount: PublicKey,
+): Promise<string> {
+  const conn = getConnection()
+  const info = await retry(async () => {
+    return conn.getNonce(nonceAccount)
+  })
+
+  if (!info) {
+    throw new Error(`Nonce account not found: ${nonceAccount.toBase58()}`)
+  }
+
+  return info.nonce
 }
 
 /**
  * Get current slot
  */
 export async function getCurrentSlot(): Promise<number> {
-  const conn = getConnection()
-  return conn.getSlot()
+  return read((conn) => conn.getSlot())
 }
 
 /**
  * Get rent exempt minimum for a given data size
  */
 export async function getRentExemptMinimum(dataSize: number): Promise<number> {
-  const conn = getConnection()
-  return conn.getMinimumBalanceForRentExemption(dataSize)
+  return read((conn) => conn.getMinimumBalanceForRentExemption(dataSize))
 }
@@ -1,7 +1,8 @@
-import { Telegraf } from 'telegraf'
+import { Context, Telegraf } from 'telegraf'
 import { detector } from '../core/detector.js'
 import { monitor } from '../core/monitor.js'
 import { reclaimer } from '../core/reclaimer.js'
+import type { EventOrigin } from '../core/types.js'
 import { getAccountStats, getReclaimHistory } from '../db/accounts.js'
 import { initDatabase } from '../db/index.js'
 import { formatSol, shortenPubkey } from '../utils/helpers.js'
@@ -10,6 +11,19 @@ import { logger } from '../utils/logger.js'
 let bot: Telegraf | null = null
 let authorizedChatId: string | null = null
 
+/**
+ * Attribute account changes made by a command to the Telegram user who sent it
+ */
+function botOrigin(ctx: Context): EventOrigin {
+  const user = ctx.from
+  return {
+    source: 'bot',
+    actor: user
+      ? `telegram:${user.username ? `@${user.username}` : user.id}`
+      : undefined,
+  }
+}
+
 /**
  * Initialize the Telegram bot
  */
@@ -86,7 +100,9 @@ export function initTelegramBot(token: string, chatId?: string): Telegraf {
   bot.command('scan', async (ctx) => {
     try {
       await ctx.reply('🔍 Scanning for accounts...')
-      const accounts = await monitor.scanOperatorAccounts()
+      const accounts = await monitor.scanOperatorAccounts({
+        origin: botOrigin(ctx),
+      })
       await ctx.reply(
         `✅ Found ${accounts.length} token accounts\n` +
           `Total rent: ${formatSol(accounts.reduce((s, a) => s + a.rentLamports, 0))}`,
@@ -100,7 +116,10 @@ export function initTelegramBot(token: string, chatId?: string): Telegraf {
   bot.command('check', async (ctx) => {
     try {
       await ctx.reply('🔍 Checking for reclaimable accounts...')
-      const results = await detector.findSafeReclaimable()
+      const results = await detector.findSafeReclaimable(
+        undefined,
+        botOrigin(ctx),
+      )
 
       if (results.length === 0) {
         await ctx.reply('✅ No accounts ready for reclaim.')
@@ -134,7 +153,10 @@ export function initTelegramBot(token: string, chatId?: string): Telegraf {
   bot.command('reclaim', async (ctx) => {
     try {
       await ctx.reply('🔍 Finding reclaimable accounts...')
-      const results = await detector.findSafeReclaimable()
+      const results = await detector.findSafeReclaimable(
+        undefined,
+        botOrigin(ctx),
+      )
 
       if (results.length === 0) {
         await ctx.reply('✅ Nothing to reclaim.')
@@ -158,7 +180,10 @@ export function initTelegramBot(token: string, chatId?: string): Telegraf {
   bot.command('reclaim_execute', async (ctx) => {
     try {
       await ctx.reply('⏳ Finding and reclaiming accounts...')
-      const results = await detector.findSafeReclaimable()
+      const results = await detector.findSafeReclaimable(
+        undefined,
+        botOrigin(ctx),
+      )
 
       if (results.length === 0) {
         await ctx.reply('✅ Nothing to reclaim.')
@@ -168,6 +193,7 @@ export function initTelegramBot(token: string, chatId?: string): Telegraf {
       const reclaimResults = await reclaimer.batchReclaim(results, {
         dryRun: false,
         maxAccounts: 10,
+        origin: botOrigin(ctx),
       })
 
       const successful = reclaimResults.filter((r) => r.success)
@@ -252,6 +278,27 @@ export async function sendReclaimAlert(
   await sendNotification(message)
 }
 
+/**
+ * Start polling without blocking, for use inside a longer-lived process
+ */
+export function launchBot(token: string, chatId?: string): void {
+  const telegramBot = initTelegramBot(token, chatId)
+  telegramBot.launch().catch((error) => {
+    logger.error('Telegram bot stopped:', error)
+  })
+}
+
+/**
+ * Stop polling, if the bot is running
+ */
+export function stopBot(reason = 'shutdown'): void {
+  try {
+    bot?.stop(reason)
+  } catch {
+    // Not running
+  }
+}
+
 /**
  * Start the Telegram bot (polling mode)
  */
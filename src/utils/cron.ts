@@ -0,0 +1,134 @@
+/**
+ * Minimal cron expression support for the daemon scheduler
+ * Standard five fields (minute hour day-of-month month day-of-week) in local
+ * time, with `*`, lists, ranges and steps, plus @hourly/@daily/@weekly/
+ * @monthly aliases. As in classic cron, when both day fields are restricted
+ * a day matches if either one does.
+ */
+export interface CronSchedule {
+  expression: string
+  /** Next time strictly after `after` that matches the schedule */
+  next(after: Date): Date
+}
+
+const ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+}
+
+// [min, max] for each field
+const FIELD_RANGES: [number, number][] = [
+  [0, 59],
+  [0, 23],
+  [1, 31],
+  [1, 12],
+  [0, 7], // 0 and 7 are both Sunday
+]
+
+// Give up if no match within this many years (e.g. "0 0 31 2 *")
+const MAX_SEARCH_YEARS = 5
+
+/**
+ * Parse one field into the set of values it matches
+ */
+function parseField(field: string, [min, max]: [number, number]): Set<number> {
+  const values = new Set<number>()
+
+  for (const part of field.split(',')) {
+    const [range, stepStr] = part.split('/')
+    const step = stepStr === undefined ? 1 : Number(stepStr)
+
+    let start: number
+    let end: number
+    if (range === '*') {
+      start = min
+      end = max
+    } else if (range.includes('-')) {
+      const [a, b] = range.split('-')
+      start = Number(a)
+      end = Number(b)
+    } else {
+      start = Number(range)
+      end = stepStr === undefined ? start : max
+    }
+
+    if (
+      !Number.isInteger(start) ||
+      !Number.isInteger(end) ||
+      !Number.isInteger(step) ||
+      step < 1 ||
+      start < min ||
+      end > max ||
+      start > end
+    ) {
+      throw new Error(`Invalid cron field: ${field}`)
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+
+  return values
+}
+
+/**
+ * Parse a cron expression
+ */
+export function parseCron(expression: string): CronSchedule {
+  const normalized = ALIASES[expression.trim()] ?? expression.trim()
+  const fields = normalized.split(/\s+/)
+  if (fields.length !== 5) {
+    throw new Error(
+      `Invalid cron expression: "${expression}" (expected 5 fields)`,
+    )
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(
+    (field, i) => parseField(field, FIELD_RANGES[i]),
+  )
+  if (daysOfWeek.has(7)) daysOfWeek.add(0)
+
+  // As in cron, a day field starting with "*" (e.g. "*/2") is not a
+  // restriction for this rule even though it skips days
+  const domRestricted = !fields[2].startsWith('*')
+  const dowRestricted = !fields[4].startsWith('*')
+
+  const dayMatches = (date: Date): boolean => {
+    const dom = daysOfMonth.has(date.getDate())
+    const dow = daysOfWeek.has(date.getDay())
+    if (domRestricted && dowRestricted) return dom || dow
+    return dom && dow
+  }
+
+  return {
+    expression,
+    next(after: Date): Date {
+      const date = new Date(after)
+      date.setSeconds(0, 0)
+      date.setMinutes(date.getMinutes() + 1)
+
+      const limit = after.getFullYear() + MAX_SEARCH_YEARS
+      while (date.getFullYear() <= limit) {
+        if (!months.has(date.getMonth() + 1)) {
+          date.setMonth(date.getMonth() + 1, 1)
+          date.setHours(0, 0)
+        } else if (!dayMatches(date)) {
+          date.setDate(date.getDate() + 1)
+          date.setHours(0, 0)
+        } else if (!hours.has(date.getHours())) {
+          date.setHours(date.getHours() + 1, 0)
+        } else if (!minutes.has(date.getMinutes())) {
+          date.setMinutes(date.getMinutes() + 1)
+        } else {
+          return date
+        }
+      }
+
+      throw new Error(`Cron expression never matches: ${expression}`)
+    },
+  }
+}
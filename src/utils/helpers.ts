@@ -81,8 +81,48 @@ export function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms))
 }
 
+// Errors that fail the same way however often they are retried: malformed
+// input, unknown methods, and accounts or authorities that don't match
+const PERMANENT_ERROR_PATTERNS = [
+  /invalid public key input/i,
+  /wrongsize/i,
+  /invalid param/i,
+  /method not found/i,
+  /owner does not match/i,
+  /missing required signature/i,
+  /signature verification failed/i,
+  /custom program error: 0x4\b/i, // SPL Token OwnerMismatch
+  /non-native account can only be closed if its balance is zero/i,
+]
+const PERMANENT_ERROR_NAMES = [
+  'TokenAccountNotFoundError',
+  'TokenInvalidAccountOwnerError',
+]
+// JSON-RPC invalid request, method not found and invalid params
+const PERMANENT_RPC_CODES = [-32600, -32601, -32602]
+
+/**
+ * Classify an error as transient (worth retrying) or permanent
+ * Unrecognized errors count as transient, so network trouble, rate limits
+ * and overloaded nodes keep being retried.
+ */
+export function classifyError(error: unknown): 'transient' | 'permanent' {
+  if (!(error instanceof Error)) return 'transient'
+
+  const code = (error as { code?: unknown }).code
+  if (
+    PERMANENT_ERROR_NAMES.includes(error.name) ||
+    (typeof code === 'number' && PERMANENT_RPC_CODES.includes(code)) ||
+    PERMANENT_ERROR_PATTERNS.some((pattern) => pattern.test(error.message))
+  ) {
+    return 'permanent'
+  }
+  return 'transient'
+}
+
 /**
  * Retry a function with exponential backoff
+ * Permanent errors (see classifyError) are thrown without retrying.
  */
 export async function retry<T>(
   fn: () => Promise<T>,
@@ -96,6 +136,7 @@ export async function retry<T>(
       return await fn()
     } catch (error) {
       lastError = error as Error
+      if (classifyError(error) === 'permanent') throw error
       if (attempt < maxRetries - 1) {
         const delay = baseDelayMs * Math.pow(2, attempt)
         await sleep(delay)
@@ -122,6 +163,31 @@ export function daysSince(date: Date): number {
   return Math.floor(diffMs / (1000 * 60 * 60 * 24))
 }
 
+/**
+ * Milliseconds left before a cooldown that started at `startedAt` expires
+ * A missing start means the cooldown has not begun, so the full window remains.
+ */
+export function cooldownRemainingMs(
+  startedAt: Date | undefined,
+  cooldownHours: number,
+): number {
+  const cooldownMs = cooldownHours * 60 * 60 * 1000
+  if (!startedAt) {
+    return cooldownMs
+  }
+  return Math.max(0, startedAt.getTime() + cooldownMs - Date.now())
+}
+
+/**
+ * Format a duration in milliseconds as e.g. "5h 12m"
+ */
+export function formatDuration(ms: number): string {
+  const totalMinutes = Math.ceil(ms / (1000 * 60))
+  const hours = Math.floor(totalMinutes / 60)
+  const minutes = totalMinutes % 60
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`
+}
+
 /**
  * Chunk an array into smaller arrays
  */
@@ -0,0 +1,42 @@
+import readline from 'readline'
+
+/**
+ * Prompt for a secret on the terminal without echoing it
+ */
+export function promptSecret(question: string): Promise<string> {
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+    terminal: true,
+  })
+
+  // Echo the question but nothing the user types
+  const output = rl as unknown as { _writeToOutput: (text: string) => void }
+  let muted = false
+  output._writeToOutput = (text: string) => {
+    if (!muted || text.includes('\n')) process.stdout.write(muted ? '\n' : text)
+  }
+
+  return new Promise((resolve) => {
+    rl.question(question, (answer) => {
+      rl.close()
+      resolve(answer)
+    })
+    muted = true
+  })
+}
+
+/**
+ * Prompt for a new secret twice and make sure both entries match
+ */
+export async function promptNewSecret(question: string): Promise<string> {
+  const secret = await promptSecret(question)
+  const confirmation = await promptSecret('Confirm: ')
+  if (secret !== confirmation) {
+    throw new Error('Entries do not match')
+  }
+  if (!secret) {
+    throw new Error('Entry must not be empty')
+  }
+  return secret
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest'
+import { parseCron } from '../src/utils/cron.js'
+
+// Wednesday 2026-01-07 10:30 local time
+const AFTER = new Date(2026, 0, 7, 10, 30)
+
+/**
+ * Format a local time as YYYY-MM-DD HH:MM
+ */
+function local(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return (
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ` +
+    `${pad(date.getHours())}:${pad(date.getMinutes())}`
+  )
+}
+
+/**
+ * The next `count` run times after `after`
+ */
+function runs(expression: string, count: number, after = AFTER): string[] {
+  const schedule = parseCron(expression)
+  const times: string[] = []
+  let date = after
+  for (let i = 0; i < count; i++) {
+    date = schedule.next(date)
+    times.push(local(date))
+  }
+  return times
+}
+
+describe('parseCron', () => {
+  it.each([
+    ['* * * * *', ['2026-01-07 10:31', '2026-01-07 10:32']],
+    ['45 * * * *', ['2026-01-07 10:45', '2026-01-07 11:45']],
+    ['0,15 9-11 * * *', ['2026-01-07 11:00', '2026-01-07 11:15']],
+    ['*/20 * * * *', ['2026-01-07 10:40', '2026-01-07 11:00']],
+    ['10-50/20 * * * *', ['2026-01-07 10:50', '2026-01-07 11:10']],
+    ['5/25 * * * *', ['2026-01-07 10:55', '2026-01-07 11:05']],
+    ['0 0 1 */3 *', ['2026-04-01 00:00', '2026-07-01 00:00']],
+  ])('runs %s at the expected times', (expression, expected) => {
+    expect(runs(expression, expected.length)).toEqual(expected)
+  })
+
+  it.each([
+    ['@hourly', '2026-01-07 11:00'],
+    ['@daily', '2026-01-08 00:00'],
+    ['@midnight', '2026-01-08 00:00'],
+    ['@weekly', '2026-01-11 00:00'],
+    ['@monthly', '2026-02-01 00:00'],
+  ])('expands the %s alias', (alias, expected) => {
+    expect(runs(alias, 1)).toEqual([expected])
+  })
+
+  it('treats 0 and 7 as Sunday', () => {
+    expect(runs('0 0 * * 7', 1)).toEqual(runs('0 0 * * 0', 1))
+    expect(runs('0 0 * * 7', 1)).toEqual(['2026-01-11 00:00'])
+  })
+
+  it('matches either day field when both are restricted', () => {
+    // The 10th of the month, or any Monday
+    expect(runs('0 12 10 * 1', 3)).toEqual([
+      '2026-01-10 12:00',
+      '2026-01-12 12:00',
+      '2026-01-19 12:00',
+    ])
+  })
+
+  it('matches both day fields when only one is restricted', () => {
+    expect(runs('0 12 * * 1', 2)).toEqual([
+      '2026-01-12 12:00',
+      '2026-01-19 12:00',
+    ])
+    expect(runs('0 12 10 * *', 2)).toEqual([
+      '2026-01-10 12:00',
+      '2026-02-10 12:00',
+    ])
+  })
+
+  it('treats a stepped wildcard day field as unrestricted', () => {
+    // Mondays falling on an odd day of the month
+    expect(runs('0 0 */2 * 1', 2)).toEqual([
+      '2026-01-19 00:00',
+      '2026-02-09 00:00',
+    ])
+  })
+
+  it('returns a time strictly after the given one', () => {
+    const onTheMinute = new Date(2026, 0, 7, 11, 0)
+    expect(runs('0 * * * *', 1, onTheMinute)).toEqual(['2026-01-07 12:00'])
+
+    const midMinute = new Date(2026, 0, 7, 10, 59, 30, 500)
+    expect(runs('0 * * * *', 1, midMinute)).toEqual(['2026-01-07 11:00'])
+  })
+
+  it('rolls over month and year ends', () => {
+    expect(runs('0 0 31 * *', 2, new Date(2026, 0, 31, 1))).toEqual([
+      '2026-03-31 00:00',
+      '2026-05-31 00:00',
+    ])
+    expect(runs('30 23 31 12 *', 1)).toEqual(['2026-12-31 23:30'])
+    expect(runs('0 0 29 2 *', 1)).toEqual(['2028-02-29 00:00'])
+  })
+
+  it.each([
+    ['0 0 * *'],
+    ['0 0 * * * *'],
+    ['60 * * * *'],
+    ['* 24 * * *'],
+    ['* * 0 * *'],
+    ['* * * 13 *'],
+    ['* * * * 8'],
+    ['10-5 * * * *'],
+    ['*/0 * * * *'],
+    ['a * * * *'],
+    ['@yearly'],
+  ])('rejects %s', (expression) => {
+    expect(() => parseCron(expression)).toThrow(/Invalid cron/)
+  })
+
+  it('gives up on a schedule that never matches', () => {
+    expect(() => parseCron('0 0 31 2 *').next(AFTER)).toThrow(/never matches/)
+  })
+})
@@ -0,0 +1,137 @@
+import { Keypair, PublicKey } from '@solana/web3.js'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import { resetConfig, setConfig } from '../src/config.js'
+import type { AccountEvent, AccountStatus } from '../src/core/types.js'
+import {
+  addProtectedAccount,
+  addTrackedAccount,
+  removeProtectedAccount,
+} from '../src/db/accounts.js'
+import { addAccountEvent, getAccountEvents } from '../src/db/events.js'
+import { closeDatabase, initDatabase } from '../src/db/index.js'
+import { setLogLevel } from '../src/utils/logger.js'
+
+const RENT = 2_039_280
+
+/**
+ * The kind and values of each event, for comparing logs
+ */
+function changes(events: AccountEvent[]) {
+  return events.map((e) => [e.kind, e.oldValue, e.newValue])
+}
+
+describe('account events', () => {
+  let dir: string
+  let pubkey: PublicKey
+
+  beforeAll(() => {
+    setLogLevel('silent')
+  })
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'events-'))
+    setConfig({ dbPath: path.join(dir, 'accounts.db') })
+    initDatabase()
+    pubkey = Keypair.generate().publicKey
+  })
+
+  afterEach(() => {
+    closeDatabase()
+    resetConfig()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  function track(rentLamports = RENT, status: AccountStatus = 'active') {
+    addTrackedAccount(
+      {
+        pubkey,
+        accountType: 'token_account',
+        rentLamports,
+        createdAt: new Date(),
+        lastCheckedAt: new Date(),
+        status,
+      },
+      { source: 'scan', slot: 100 },
+    )
+  }
+
+  it('logs the status and lamports of a newly tracked account', () => {
+    track()
+
+    const events = getAccountEvents(pubkey)
+
+    expect(changes(events)).toEqual([
+      ['status', undefined, 'active'],
+      ['lamports', undefined, String(RENT)],
+    ])
+    expect(events[0]).toMatchObject({ source: 'scan', slot: 100 })
+    expect(events[0].actor).toBeTruthy()
+  })
+
+  it('logs nothing when an upsert changes neither status nor lamports', () => {
+    track()
+    track()
+
+    expect(getAccountEvents(pubkey)).toHaveLength(2)
+  })
+
+  it('logs only the lamports when an upsert changes them', () => {
+    track()
+    track(RENT + 1)
+
+    expect(changes(getAccountEvents(pubkey)).slice(2)).toEqual([
+      ['lamports', String(RENT), String(RENT + 1)],
+    ])
+  })
+
+  it('logs one protection event on protect and one on unprotect', () => {
+    track()
+
+    addProtectedAccount(pubkey, 'treasury', { source: 'cli' })
+    removeProtectedAccount(pubkey, { source: 'cli' })
+
+    const protection = getAccountEvents(pubkey).filter(
+      (e) => e.kind === 'protection',
+    )
+    expect(changes(protection)).toEqual([
+      ['protection', 'unprotected', 'protected'],
+      ['protection', 'protected', 'unprotected'],
+    ])
+    expect(protection[0].detail).toBe('treasury')
+  })
+
+  it('logs no protection event when unprotecting an unprotected account', () => {
+    track()
+
+    removeProtectedAccount(pubkey, { source: 'cli' })
+
+    expect(
+      getAccountEvents(pubkey).filter((e) => e.kind === 'protection'),
+    ).toEqual([])
+  })
+
+  it('returns the latest events oldest first', () => {
+    for (let i = 1; i <= 5; i++) {
+      addAccountEvent(pubkey, 'lamports', i - 1, i, { source: 'watch' })
+    }
+
+    const events = getAccountEvents(pubkey, 3)
+
+    expect(events.map((e) => e.newValue)).toEqual(['3', '4', '5'])
+  })
+
+  it('returns only the given account', () => {
+    track()
+    addAccountEvent(Keypair.generate().publicKey, 'status', null, 'active', {
+      source: 'scan',
+    })
+
+    expect(
+      getAccountEvents(pubkey).every((e) => e.accountPubkey.equals(pubkey)),
+    ).toBe(true)
+    expect(getAccountEvents(pubkey)).toHaveLength(2)
+  })
+})
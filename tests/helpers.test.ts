@@ -0,0 +1,126 @@
+import {
+  TokenAccountNotFoundError,
+  TokenInvalidAccountOwnerError,
+} from '@solana/spl-token'
+import { describe, expect, it, vi } from 'vitest'
+import { classifyError, retry } from '../src/utils/helpers.js'
+
+/**
+ * An error carrying a JSON-RPC error code, as web3.js raises them
+ */
+function rpcError(code: number, message: string): Error {
+  return Object.assign(new Error(message), { code })
+}
+
+describe('classifyError', () => {
+  it.each([
+    ['invalid request', rpcError(-32600, 'Invalid request')],
+    ['method not found', rpcError(-32601, 'Method not found')],
+    ['invalid params', rpcError(-32602, 'Invalid params: bad encoding')],
+  ])('treats JSON-RPC %s as permanent', (_, error) => {
+    expect(classifyError(error)).toBe('permanent')
+  })
+
+  it.each([
+    ['internal error', rpcError(-32603, 'Internal error')],
+    ['node unhealthy', rpcError(-32005, 'Node is behind by 120 slots')],
+    ['blockhash not found', rpcError(-32002, 'Blockhash not found')],
+    ['a string code', rpcError('-32602' as unknown as number, 'Bad')],
+  ])('treats JSON-RPC %s as transient', (_, error) => {
+    expect(classifyError(error)).toBe('transient')
+  })
+
+  it.each([
+    'Invalid public key input',
+    'failed to get info about account: WrongSize',
+    'invalid param: Invalid',
+    'Method not found',
+    'owner does not match',
+    'Missing required signature for instruction',
+    'Signature verification failed',
+    'Transaction simulation failed: custom program error: 0x4',
+    'Non-native account can only be closed if its balance is zero',
+  ])('treats "%s" as permanent', (message) => {
+    expect(classifyError(new Error(message))).toBe('permanent')
+  })
+
+  it.each([
+    '429 Too Many Requests: {"jsonrpc":"2.0","error":{"code":429}}',
+    'Server responded with 429 Too Many Requests. Retrying after 500ms delay...',
+    '503 Service Unavailable',
+    'fetch failed',
+    'socket hang up',
+    'connect ECONNREFUSED 127.0.0.1:8899',
+    'Transaction simulation failed: custom program error: 0x40',
+  ])('treats "%s" as transient', (message) => {
+    expect(classifyError(new Error(message))).toBe('transient')
+  })
+
+  it.each([
+    ['TokenAccountNotFoundError', new TokenAccountNotFoundError()],
+    ['TokenInvalidAccountOwnerError', new TokenInvalidAccountOwnerError()],
+  ])('treats %s as permanent', (_, error) => {
+    expect(classifyError(error)).toBe('permanent')
+  })
+
+  it.each([
+    ['a string', 'boom'],
+    ['undefined', undefined],
+    ['a plain object', { code: -32602 }],
+  ])('treats a thrown %s as transient', (_, thrown) => {
+    expect(classifyError(thrown)).toBe('transient')
+  })
+})
+
+describe('retry', () => {
+  it('retries a rate-limited call until it succeeds', async () => {
+    const fn = vi
+      .fn<() => Promise<string>>()
+      .mockRejectedValueOnce(new Error('429 Too Many Requests'))
+      .mockRejectedValueOnce(new Error('429 Too Many Requests'))
+      .mockResolvedValue('ok')
+
+    await expect(retry(fn, 3, 1)).resolves.toBe('ok')
+    expect(fn).toHaveBeenCalledTimes(3)
+  })
+
+  it('gives up on a rate limit after the last attempt', async () => {
+    const fn = vi.fn(async () => {
+      throw new Error('429 Too Many Requests')
+    })
+
+    await expect(retry(fn, 3, 1)).rejects.toThrow('429')
+    expect(fn).toHaveBeenCalledTimes(3)
+  })
+
+  it('backs off exponentially between attempts', async () => {
+    vi.useFakeTimers()
+    try {
+      const fn = vi.fn(async () => {
+        throw new Error('503 Service Unavailable')
+      })
+      const result = expect(retry(fn, 3, 100)).rejects.toThrow('503')
+
+      await vi.advanceTimersByTimeAsync(99)
+      expect(fn).toHaveBeenCalledTimes(1)
+      await vi.advanceTimersByTimeAsync(1)
+      expect(fn).toHaveBeenCalledTimes(2)
+      await vi.advanceTimersByTimeAsync(199)
+      expect(fn).toHaveBeenCalledTimes(2)
+      await vi.advanceTimersByTimeAsync(1)
+      expect(fn).toHaveBeenCalledTimes(3)
+      await result
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('throws a permanent error without retrying', async () => {
+    const fn = vi.fn(async () => {
+      throw rpcError(-32602, 'Invalid params')
+    })
+
+    await expect(retry(fn, 3, 1)).rejects.toThrow('Invalid params')
+    expect(fn).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,148 @@
+import { Keypair } from '@solana/web3.js'
+import { existsSync, mkdtempSync, readdirSync, renameSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { resetConfig, setConfig } from '../src/config.js'
+import {
+  decryptKeystore,
+  encryptKeypair,
+  importKeystoreEntry,
+  readKeystoreFile,
+  rotateKeystorePassphrase,
+} from '../src/services/keystore.js'
+
+vi.mock('fs', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('fs')>()
+  return { ...actual, renameSync: vi.fn(actual.renameSync) }
+})
+
+const PASSPHRASE = 'correct horse battery staple'
+
+describe('keystore encryption', () => {
+  it('decrypts back to the same keypair', () => {
+    const keypair = Keypair.generate()
+    const keystore = encryptKeypair(keypair, PASSPHRASE)
+
+    expect(keystore.publicKey).toBe(keypair.publicKey.toBase58())
+    expect(keystore.ciphertext).not.toContain(
+      Buffer.from(keypair.secretKey).toString('hex'),
+    )
+    expect(decryptKeystore(keystore, PASSPHRASE).secretKey).toEqual(
+      keypair.secretKey,
+    )
+  })
+
+  it('rejects a wrong passphrase', () => {
+    const keystore = encryptKeypair(Keypair.generate(), PASSPHRASE)
+
+    expect(() => decryptKeystore(keystore, 'wrong')).toThrow(
+      /wrong passphrase or corrupt file/,
+    )
+  })
+
+  it('rejects a tampered ciphertext', () => {
+    const keystore = encryptKeypair(Keypair.generate(), PASSPHRASE)
+    const flipped = (parseInt(keystore.ciphertext.slice(0, 2), 16) ^ 1)
+      .toString(16)
+      .padStart(2, '0')
+
+    expect(() =>
+      decryptKeystore(
+        { ...keystore, ciphertext: flipped + keystore.ciphertext.slice(2) },
+        PASSPHRASE,
+      ),
+    ).toThrow(/wrong passphrase or corrupt file/)
+  })
+
+  it('rejects a keystore edited to claim another public key', () => {
+    const keystore = encryptKeypair(Keypair.generate(), PASSPHRASE)
+
+    expect(() =>
+      decryptKeystore(
+        { ...keystore, publicKey: Keypair.generate().publicKey.toBase58() },
+        PASSPHRASE,
+      ),
+    ).toThrow(/wrong passphrase or corrupt file/)
+  })
+
+  it('refuses an empty passphrase', () => {
+    expect(() => encryptKeypair(Keypair.generate(), '')).toThrow(
+      /must not be empty/,
+    )
+  })
+})
+
+describe('rotateKeystorePassphrase', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'keystore-'))
+    setConfig({ keystoreDir: dir })
+    importKeystoreEntry('alpha', Keypair.generate(), 'old')
+    importKeystoreEntry('beta', Keypair.generate(), 'old')
+  })
+
+  afterEach(() => {
+    vi.mocked(renameSync).mockClear()
+    rmSync(dir, { recursive: true, force: true })
+    resetConfig()
+  })
+
+  function opensWith(name: string, passphrase: string): boolean {
+    try {
+      decryptKeystore(
+        readKeystoreFile(path.join(dir, `${name}.json`)),
+        passphrase,
+      )
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  it('re-encrypts every entry', () => {
+    rotateKeystorePassphrase('old', 'new')
+
+    expect(opensWith('alpha', 'new')).toBe(true)
+    expect(opensWith('beta', 'new')).toBe(true)
+    expect(readdirSync(dir).sort()).toEqual(['alpha.json', 'beta.json'])
+  })
+
+  it('leaves the keystore untouched on a wrong old passphrase', () => {
+    expect(() => rotateKeystorePassphrase('wrong', 'new')).toThrow()
+
+    expect(opensWith('alpha', 'old')).toBe(true)
+    expect(opensWith('beta', 'old')).toBe(true)
+    expect(renameSync).not.toHaveBeenCalled()
+  })
+
+  it('writes every new file before renaming any', () => {
+    vi.mocked(renameSync).mockImplementationOnce(() => {
+      expect(existsSync(path.join(dir, 'alpha.json.tmp'))).toBe(true)
+      expect(existsSync(path.join(dir, 'beta.json.tmp'))).toBe(true)
+      throw new Error('crash')
+    })
+
+    expect(() => rotateKeystorePassphrase('old', 'new')).toThrow('crash')
+    expect(opensWith('alpha', 'old')).toBe(true)
+  })
+
+  it('finishes an interrupted rotation when run again', () => {
+    const actual = vi.mocked(renameSync).getMockImplementation()!
+    vi.mocked(renameSync)
+      .mockImplementationOnce(actual)
+      .mockImplementationOnce(() => {
+        throw new Error('crash')
+      })
+
+    expect(() => rotateKeystorePassphrase('old', 'new')).toThrow('crash')
+    expect(opensWith('alpha', 'new')).toBe(true)
+    expect(opensWith('beta', 'old')).toBe(true)
+
+    rotateKeystorePassphrase('old', 'new')
+
+    expect(opensWith('alpha', 'new')).toBe(true)
+    expect(opensWith('beta', 'new')).toBe(true)
+  })
+})
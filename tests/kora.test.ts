@@ -0,0 +1,224 @@
+import { Keypair } from '@solana/web3.js'
+import { createServer, Server } from 'http'
+import type { AddressInfo } from 'net'
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest'
+import { KoraService } from '../src/services/kora.js'
+import { getCurrentSlot } from '../src/services/solana.js'
+import { setLogLevel } from '../src/utils/logger.js'
+
+vi.mock('../src/services/solana.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/services/solana.js')>()),
+  getCurrentSlot: vi.fn(),
+}))
+
+const SIGNER = Keypair.generate().publicKey.toBase58()
+const PAYMENT = Keypair.generate().publicKey.toBase58()
+const POOL = [SIGNER, Keypair.generate().publicKey.toBase58()]
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v'
+
+interface StubReply {
+  status?: number
+  body?: unknown
+  delayMs?: number
+}
+
+describe('KoraService', () => {
+  let server: Server
+  let url: string
+  // Reply per JSON-RPC method; unknown methods get "Method not found"
+  let replies: Record<string, StubReply>
+  let requests: { method: string; id: number; jsonrpc: string }[]
+
+  beforeAll(async () => {
+    setLogLevel('silent')
+
+    server = createServer((req, res) => {
+      let body = ''
+      req.on('data', (chunk) => (body += chunk))
+      req.on('end', () => {
+        const request = JSON.parse(body)
+        requests.push(request)
+
+        const reply = replies[request.method] ?? {
+          body: {
+            jsonrpc: '2.0',
+            id: request.id,
+            error: { code: -32601, message: 'Method not found' },
+          },
+        }
+        setTimeout(() => {
+          res.statusCode = reply.status ?? 200
+          res.setHeader('Content-Type', 'application/json')
+          res.end(JSON.stringify(reply.body ?? {}))
+        }, reply.delayMs ?? 0)
+      })
+    })
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  beforeEach(() => {
+    requests = []
+    replies = {
+      getPayerSigner: {
+        body: {
+          jsonrpc: '2.0',
+          id: 1,
+          result: { signer_address: SIGNER, payment_address: PAYMENT },
+        },
+      },
+      getSupportedTokens: {
+        body: { jsonrpc: '2.0', id: 1, result: { tokens: [USDC] } },
+      },
+      getConfig: {
+        body: {
+          jsonrpc: '2.0',
+          id: 1,
+          result: {
+            fee_payers: POOL,
+            validation_config: { max_signatures: 10 },
+          },
+        },
+      },
+    }
+    vi.mocked(getCurrentSlot).mockResolvedValue(321_000_000)
+  })
+
+  it('reads the payer signer', async () => {
+    await expect(new KoraService(url).getPayerSigner()).resolves.toEqual({
+      signer_address: SIGNER,
+      payment_address: PAYMENT,
+    })
+    expect(requests).toMatchObject([
+      { jsonrpc: '2.0', id: 1, method: 'getPayerSigner' },
+    ])
+  })
+
+  it('reads the supported tokens', async () => {
+    await expect(new KoraService(url).getSupportedTokens()).resolves.toEqual([
+      USDC,
+    ])
+  })
+
+  it('reads the node config', async () => {
+    const config = await new KoraService(url).getConfig()
+
+    expect(config.fee_payers).toEqual(POOL)
+    expect(config.validation_config.max_signatures).toBe(10)
+  })
+
+  it('lists the fee payers of a signer pool', async () => {
+    const feePayers = await new KoraService(url).getFeePayers()
+
+    expect(feePayers.map((p) => p.toBase58())).toEqual(POOL)
+  })
+
+  it.each([
+    ['has no fee payers', { validation_config: {} }],
+    ['lists no fee payers', { fee_payers: [], validation_config: {} }],
+  ])('falls back to the payer signer when getConfig %s', async (_, result) => {
+    replies.getConfig = { body: { jsonrpc: '2.0', id: 1, result } }
+
+    const feePayers = await new KoraService(url).getFeePayers()
+
+    expect(feePayers.map((p) => p.toBase58())).toEqual([SIGNER])
+  })
+
+  it('falls back to the payer signer when getConfig is not supported', async () => {
+    delete replies.getConfig
+
+    const feePayers = await new KoraService(url).getFeePayers()
+
+    expect(feePayers.map((p) => p.toBase58())).toEqual([SIGNER])
+  })
+
+  it.each<[string, StubReply, RegExp]>([
+    [
+      'a JSON-RPC error',
+      {
+        body: {
+          jsonrpc: '2.0',
+          id: 1,
+          error: { code: -32602, message: 'Invalid params' },
+        },
+      },
+      /^Kora getPayerSigner: Invalid params$/,
+    ],
+    [
+      'a non-200 response',
+      { status: 502, body: {} },
+      /^Kora getPayerSigner: HTTP 502 Bad Gateway$/,
+    ],
+    [
+      'an empty result',
+      { body: { jsonrpc: '2.0', id: 1 } },
+      /^Kora getPayerSigner: empty response$/,
+    ],
+  ])('throws on %s', async (_, reply, message) => {
+    replies.getPayerSigner = reply
+
+    await expect(new KoraService(url).getPayerSigner()).rejects.toThrow(message)
+  })
+
+  it('numbers requests', async () => {
+    const kora = new KoraService(url)
+    await kora.getPayerSigner()
+    await kora.getSupportedTokens()
+
+    expect(requests.map((r) => r.id)).toEqual([1, 2])
+  })
+
+  describe('getNodeStatus', () => {
+    it('reports the cluster slot and the node latency', async () => {
+      replies.getPayerSigner.delayMs = 50
+
+      const status = await new KoraService(url).getNodeStatus()
+
+      expect(status).toMatchObject({
+        healthy: true,
+        url,
+        slot: 321_000_000,
+        feePayer: SIGNER,
+        paymentAddress: PAYMENT,
+        supportedTokens: [USDC],
+      })
+      expect(status.latency).toBeGreaterThanOrEqual(45)
+      expect(status.latency).toBeLessThan(5_000)
+    })
+
+    it('stays healthy without the slot or supported tokens', async () => {
+      vi.mocked(getCurrentSlot).mockRejectedValue(new Error('RPC down'))
+      delete replies.getSupportedTokens
+
+      const status = await new KoraService(url).getNodeStatus()
+
+      expect(status.healthy).toBe(true)
+      expect(status.slot).toBeUndefined()
+      expect(status.supportedTokens).toBeUndefined()
+    })
+
+    it('reports a failing node as unhealthy', async () => {
+      replies.getPayerSigner = { status: 503 }
+
+      const status = await new KoraService(url).getNodeStatus()
+
+      expect(status).toMatchObject({
+        healthy: false,
+        url,
+        error: 'Kora getPayerSigner: HTTP 503 Service Unavailable',
+      })
+    })
+  })
+})
@@ -0,0 +1,121 @@
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest'
+import { resetConfig, setConfig } from '../src/config.js'
+import { LeaseLostError, LeaseManager } from '../src/core/lock.js'
+import { closeDatabase, getDatabase, initDatabase } from '../src/db/index.js'
+import { getLease } from '../src/db/locks.js'
+import { setLogLevel } from '../src/utils/logger.js'
+
+describe('LeaseManager', () => {
+  let dir: string
+  let leases: LeaseManager
+
+  beforeAll(() => {
+    setLogLevel('silent')
+  })
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'lock-'))
+    setConfig({ dbPath: path.join(dir, 'accounts.db') })
+    initDatabase()
+    leases = new LeaseManager()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    closeDatabase()
+    resetConfig()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('holds the lease while running and releases it after', async () => {
+    await leases.withLease('reclaim', 'batch reclaim', async () => {
+      expect(getLease('reclaim')?.holder).toBe(leases.holderId)
+      leases.assertHeld('reclaim')
+    })
+
+    expect(getLease('reclaim')).toBeUndefined()
+    expect(() => leases.assertHeld('reclaim')).toThrow(/not held/)
+  })
+
+  it('lets a nested entry point share the lease', async () => {
+    const result = await leases.withLease('reclaim', 'batch reclaim', () =>
+      leases.withLease('reclaim', 'journal recovery', async () => {
+        leases.assertHeld('reclaim')
+        return 'nested'
+      }),
+    )
+
+    expect(result).toBe('nested')
+    expect(getLease('reclaim')).toBeUndefined()
+  })
+
+  it('refuses a concurrent caller in the same process', async () => {
+    let finish!: () => void
+    const first = leases.withLease(
+      'reclaim',
+      'batch reclaim',
+      () => new Promise<void>((resolve) => (finish = resolve)),
+    )
+
+    const second = vi.fn(async () => undefined)
+    await expect(
+      leases.withLease('reclaim', 'batch reclaim', second),
+    ).rejects.toThrow(/held by this process \(batch reclaim\)/)
+    expect(second).not.toHaveBeenCalled()
+
+    finish()
+    await first
+    await leases.withLease('reclaim', 'batch reclaim', second)
+    expect(second).toHaveBeenCalledOnce()
+  })
+
+  it('refuses a lease held by another live process', async () => {
+    getDatabase()
+      .prepare(
+        'INSERT INTO locks (name, holder, purpose, acquired_at, heartbeat_at, expires_at) VALUES (?, ?, ?, ?, ?, ?)',
+      )
+      .run(
+        'reclaim',
+        'elsewhere:1',
+        'batch reclaim',
+        new Date().toISOString(),
+        new Date().toISOString(),
+        new Date(Date.now() + 60_000).toISOString(),
+      )
+
+    await expect(
+      leases.withLease('reclaim', 'batch reclaim', async () => undefined),
+    ).rejects.toThrow(/held by elsewhere:1/)
+  })
+
+  it('stops the run once a heartbeat finds the lease gone', async () => {
+    vi.useFakeTimers()
+
+    await expect(
+      leases.withLease('reclaim', 'batch reclaim', async () => {
+        leases.assertHeld('reclaim')
+
+        // Another process took the lease over after it lapsed
+        getDatabase()
+          .prepare('UPDATE locks SET holder = ? WHERE name = ?')
+          .run('elsewhere:1', 'reclaim')
+        await vi.advanceTimersByTimeAsync(30_000)
+
+        leases.assertHeld('reclaim')
+      }),
+    ).rejects.toBeInstanceOf(LeaseLostError)
+
+    expect(getLease('reclaim')?.holder).toBe('elsewhere:1')
+  })
+})
@@ -0,0 +1,207 @@
+import Database from 'better-sqlite3'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import {
+  LATEST_SCHEMA_VERSION,
+  MIGRATIONS,
+  getMigrationStatus,
+  getSchemaVersion,
+  migrate,
+  rollback,
+} from '../src/db/migrations.js'
+
+/**
+ * Every table, index and trigger in a database
+ */
+function schemaOf(db: Database.Database): { type: string; name: string }[] {
+  return db
+    .prepare(
+      "SELECT type, name, sql FROM sqlite_master WHERE name NOT LIKE 'sqlite_%' ORDER BY type, name",
+    )
+    .all() as { type: string; name: string }[]
+}
+
+describe('migrations', () => {
+  let dir: string
+  let db: Database.Database
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'migrations-'))
+    db = new Database(path.join(dir, 'accounts.db'))
+    db.pragma('journal_mode = WAL')
+  })
+
+  afterEach(() => {
+    db.close()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('numbers migrations consecutively from 1', () => {
+    expect(MIGRATIONS.map((m) => m.version)).toEqual(
+      MIGRATIONS.map((_, i) => i + 1),
+    )
+  })
+
+  it('brings a new database to the latest version', () => {
+    const applied = migrate(db)
+
+    expect(applied.map((m) => m.version)).toEqual(
+      MIGRATIONS.map((m) => m.version),
+    )
+    expect(getSchemaVersion(db)).toBe(LATEST_SCHEMA_VERSION)
+    expect(getMigrationStatus(db).every((m) => m.applied)).toBe(true)
+    expect(migrate(db)).toEqual([])
+  })
+
+  it('stops at a target version', () => {
+    migrate(db, 1)
+
+    expect(getSchemaVersion(db)).toBe(1)
+    expect(getMigrationStatus(db).map((m) => m.applied)).toEqual(
+      MIGRATIONS.map((m) => m.version === 1),
+    )
+  })
+
+  it.each(MIGRATIONS.filter((m) => m.down).map((m) => [m.version, m.name]))(
+    'rolls migration %i (%s) back to the schema before it',
+    (version) => {
+      migrate(db, version - 1)
+      const before = schemaOf(db)
+      migrate(db, version)
+      const after = schemaOf(db)
+
+      expect(rollback(db, version - 1).map((m) => m.version)).toEqual([version])
+      expect(getSchemaVersion(db)).toBe(version - 1)
+      expect(schemaOf(db)).toEqual(before)
+
+      migrate(db, version)
+      expect(schemaOf(db)).toEqual(after)
+    },
+  )
+
+  it('rolls back several migrations newest first', () => {
+    migrate(db)
+
+    const undone = rollback(db, 1)
+
+    expect(undone.map((m) => m.version)).toEqual(
+      MIGRATIONS.slice(1)
+        .map((m) => m.version)
+        .reverse(),
+    )
+    expect(getSchemaVersion(db)).toBe(1)
+  })
+
+  it('refuses to roll back the baseline', () => {
+    migrate(db)
+
+    expect(() => rollback(db, 0)).toThrow(
+      /Migration 1 \(baseline\) cannot be rolled back/,
+    )
+    expect(getSchemaVersion(db)).toBe(LATEST_SCHEMA_VERSION)
+  })
+
+  it('refuses a database from a newer release', () => {
+    db.pragma(`user_version = ${LATEST_SCHEMA_VERSION + 1}`)
+
+    expect(() => migrate(db)).toThrow(/Upgrade vacuum/)
+    expect(() => rollback(db, 1)).toThrow(/Roll back with the release/)
+  })
+
+  it('rejects unknown and backward targets', () => {
+    migrate(db)
+
+    expect(() => migrate(db, LATEST_SCHEMA_VERSION + 1)).toThrow(
+      /Unknown schema version/,
+    )
+    expect(() => migrate(db, 1)).toThrow(/use rollback/)
+    expect(() => rollback(db, LATEST_SCHEMA_VERSION)).toThrow(
+      /must be below the current version/,
+    )
+  })
+
+  it('leaves the schema as it was when a migration fails', () => {
+    migrate(db, 1)
+    db.exec('CREATE TABLE account_events (id INTEGER PRIMARY KEY)')
+
+    expect(() => migrate(db)).toThrow(/already exists/)
+    expect(getSchemaVersion(db)).toBe(1)
+  })
+
+  describe('with two processes starting together', () => {
+    let other: Database.Database
+
+    beforeEach(() => {
+      migrate(db, 1)
+      other = new Database(path.join(dir, 'accounts.db'))
+    })
+
+    afterEach(() => {
+      other.close()
+    })
+
+    /**
+     * Let `other` run `race` right after `db` first reads its schema version
+     */
+    function raceAfterVersionRead(race: () => void): void {
+      const pragma = db.pragma.bind(db)
+      let raced = false
+      db.pragma = ((source: string, options?: Database.PragmaOptions) => {
+        const result = pragma(source, options)
+        if (!raced && source === 'user_version') {
+          raced = true
+          race()
+        }
+        return result
+      }) as typeof db.pragma
+    }
+
+    it('applies each migration once', () => {
+      raceAfterVersionRead(() => migrate(other))
+
+      expect(migrate(db)).toEqual([])
+      expect(getSchemaVersion(db)).toBe(LATEST_SCHEMA_VERSION)
+    })
+
+    it('rolls each migration back once', () => {
+      migrate(db)
+      raceAfterVersionRead(() => rollback(other, 1))
+
+      expect(rollback(db, 1)).toEqual([])
+      expect(getSchemaVersion(db)).toBe(1)
+    })
+  })
+
+  describe('account_events', () => {
+    beforeEach(() => {
+      migrate(db)
+      db.prepare(
+        "INSERT INTO account_events (account_pubkey, kind, new_value, source) VALUES ('acct', 'status', 'active', 'scan')",
+      ).run()
+    })
+
+    it('accepts new events', () => {
+      db.prepare(
+        "INSERT INTO account_events (account_pubkey, kind, old_value, new_value, source) VALUES ('acct', 'status', 'active', 'reclaimed', 'reclaim')",
+      ).run()
+
+      expect(
+        db.prepare('SELECT COUNT(*) AS n FROM account_events').get(),
+      ).toEqual({ n: 2 })
+    })
+
+    it('refuses to update an event', () => {
+      expect(() =>
+        db.prepare("UPDATE account_events SET new_value = 'protected'").run(),
+      ).toThrow('account_events is append-only')
+    })
+
+    it('refuses to delete an event', () => {
+      expect(() => db.prepare('DELETE FROM account_events').run()).toThrow(
+        'account_events is append-only',
+      )
+    })
+  })
+})
@@ -0,0 +1,131 @@
+import { Keypair } from '@solana/web3.js'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest'
+import { resetConfig, setConfig } from '../src/config.js'
+import { monitor } from '../src/core/monitor.js'
+import { closeDatabase, initDatabase } from '../src/db/index.js'
+import { getSponsorCursor, getSponsorScanFailures } from '../src/db/sponsors.js'
+import {
+  getParsedTransaction,
+  getSignatureHistory,
+} from '../src/services/solana.js'
+import { setLogLevel } from '../src/utils/logger.js'
+
+vi.mock('../src/services/solana.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/services/solana.js')>()),
+  getSignatureHistory: vi.fn(),
+  getParsedTransaction: vi.fn(),
+  getMultipleAccountsSnapshot: vi.fn(async () => []),
+}))
+
+vi.mock('../src/services/extractor.js', () => ({
+  extractCreatedAccounts: () => [],
+}))
+
+describe('AccountMonitor.scanSponsor', () => {
+  const sponsor = Keypair.generate().publicKey
+  let dir: string
+  // Signatures whose transaction the RPC fails to return
+  let unavailable: Set<string>
+
+  beforeAll(() => {
+    setLogLevel('silent')
+  })
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'monitor-'))
+    setConfig({ dbPath: path.join(dir, 'accounts.db') })
+    initDatabase()
+
+    vi.clearAllMocks()
+    unavailable = new Set()
+    vi.mocked(getParsedTransaction).mockImplementation(async (signature) => {
+      if (!unavailable.has(signature)) return {} as never
+      if (signature.startsWith('null')) return null
+      throw new Error('429 Too Many Requests')
+    })
+  })
+
+  afterEach(() => {
+    closeDatabase()
+    resetConfig()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  /**
+   * Scan with the given history, newest first
+   */
+  function scan(signatures: string[]) {
+    vi.mocked(getSignatureHistory).mockResolvedValueOnce({
+      signatures,
+      complete: true,
+    })
+    return monitor.scanSponsor(sponsor)
+  }
+
+  it('reports transactions it could not load', async () => {
+    unavailable = new Set(['sig-2', 'null-3'])
+
+    const result = await monitor.scanFromSignatures([
+      'sig-1',
+      'sig-2',
+      'null-3',
+    ])
+
+    expect(result.failed).toEqual([
+      { signature: 'sig-2', error: '429 Too Many Requests' },
+      { signature: 'null-3', error: 'Transaction not found' },
+    ])
+  })
+
+  it('stores failures and moves the cursor on', async () => {
+    unavailable = new Set(['sig-2', 'null-3'])
+
+    await scan(['sig-4', 'null-3', 'sig-2', 'sig-1'])
+
+    expect(getSponsorCursor(sponsor)?.newest_signature).toBe('sig-4')
+    expect(getSponsorScanFailures(sponsor)).toMatchObject([
+      { signature: 'null-3', attempts: 1, last_error: 'Transaction not found' },
+      { signature: 'sig-2', attempts: 1, last_error: '429 Too Many Requests' },
+    ])
+  })
+
+  it('retries failures on the next scan and clears the ones that load', async () => {
+    unavailable = new Set(['sig-2', 'null-3'])
+    await scan(['sig-4', 'null-3', 'sig-2', 'sig-1'])
+
+    unavailable = new Set(['null-3'])
+    await scan(['sig-5'])
+
+    expect(getParsedTransaction).toHaveBeenCalledWith('sig-2')
+    expect(getSponsorCursor(sponsor)?.newest_signature).toBe('sig-5')
+    expect(getSponsorScanFailures(sponsor)).toMatchObject([
+      { signature: 'null-3', attempts: 2 },
+    ])
+  })
+
+  it('gives up on a transaction after repeated failures', async () => {
+    unavailable = new Set(['null-1'])
+    await scan(['null-1'])
+    for (let i = 2; i <= 4; i++) {
+      await scan([])
+    }
+    expect(getSponsorScanFailures(sponsor)).toMatchObject([
+      { signature: 'null-1', attempts: 4 },
+    ])
+
+    await scan([])
+
+    expect(getSponsorScanFailures(sponsor)).toEqual([])
+  })
+})
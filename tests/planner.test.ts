@@ -0,0 +1,182 @@
+import { AccountLayout, TOKEN_PROGRAM_ID } from '@solana/spl-token'
+import { Keypair, PublicKey, type AccountInfo } from '@solana/web3.js'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest'
+import { resetConfig, setConfig } from '../src/config.js'
+import { planner } from '../src/core/planner.js'
+import { reclaimer } from '../src/core/reclaimer.js'
+import type { DetectionResult, ReclaimPlanFile } from '../src/core/types.js'
+import { closeDatabase, initDatabase } from '../src/db/index.js'
+import { getPlan, getPlanItems } from '../src/db/plans.js'
+import {
+  AccountSnapshot,
+  getMultipleAccountsSnapshot,
+} from '../src/services/solana.js'
+import { setLogLevel } from '../src/utils/logger.js'
+
+vi.mock('../src/services/solana.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/services/solana.js')>()),
+  getMultipleAccountsSnapshot: vi.fn(),
+}))
+
+const RENT = 2_039_280
+const SLOT = 5_000
+
+/**
+ * An SPL token account as the RPC returns it
+ */
+function tokenAccount(amount = 0n, lamports = RENT): AccountInfo<Buffer> {
+  const data = Buffer.alloc(AccountLayout.span)
+  AccountLayout.encode(
+    {
+      mint: Keypair.generate().publicKey,
+      owner: Keypair.generate().publicKey,
+      amount,
+      delegateOption: 0,
+      delegate: PublicKey.default,
+      state: 1,
+      isNativeOption: 0,
+      isNative: 0n,
+      delegatedAmount: 0n,
+      closeAuthorityOption: 0,
+      closeAuthority: PublicKey.default,
+    },
+    data,
+  )
+  return { lamports, data, owner: TOKEN_PROGRAM_ID, executable: false }
+}
+
+function detectionOf(pubkey: PublicKey): DetectionResult {
+  return {
+    account: {
+      pubkey,
+      accountType: 'token_account',
+      sponsorTx: 'sponsor-signature',
+      payer: Keypair.generate().publicKey,
+      rentLamports: RENT,
+      owner: Keypair.generate().publicKey,
+      mint: Keypair.generate().publicKey,
+      programId: TOKEN_PROGRAM_ID,
+      createdAt: new Date('2026-01-01T00:00:00Z'),
+      lastCheckedAt: new Date('2026-01-07T00:00:00Z'),
+      lastActivityAt: new Date('2026-01-02T00:00:00Z'),
+      firstSeenReclaimableAt: new Date('2026-01-03T00:00:00Z'),
+      status: 'reclaimable',
+    },
+    reason: 'zero_balance',
+    reclaimableLamports: RENT,
+    safe: true,
+    details: 'Token account has zero balance',
+  }
+}
+
+/**
+ * A plan file as written to disk and read back
+ */
+function roundTrip(file: ReclaimPlanFile): ReclaimPlanFile {
+  return JSON.parse(JSON.stringify(file, null, 2))
+}
+
+describe('ReclaimPlanner', () => {
+  let dir: string
+  let pubkey: PublicKey
+  let detection: DetectionResult
+  let file: ReclaimPlanFile
+
+  beforeAll(() => {
+    setLogLevel('silent')
+  })
+
+  beforeEach(async () => {
+    dir = mkdtempSync(path.join(tmpdir(), 'planner-'))
+    setConfig({ dbPath: path.join(dir, 'accounts.db') })
+    initDatabase()
+    vi.spyOn(reclaimer, 'batchReclaim').mockResolvedValue([])
+
+    pubkey = Keypair.generate().publicKey
+    detection = detectionOf(pubkey)
+    setSnapshot({ info: tokenAccount(), slot: SLOT })
+    file = roundTrip(await planner.createPlan([detection]))
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    closeDatabase()
+    resetConfig()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  function setSnapshot(snapshot: AccountSnapshot): void {
+    vi.mocked(getMultipleAccountsSnapshot).mockResolvedValue([snapshot])
+  }
+
+  it('fingerprints the planned state', () => {
+    expect(file.items[0].fingerprint).toEqual({
+      lamports: RENT,
+      amount: '0',
+      slot: SLOT,
+    })
+  })
+
+  it('rebuilds the planned detections from the plan file', async () => {
+    setSnapshot({ info: tokenAccount(), slot: SLOT + 10 })
+
+    await planner.applyPlan(file)
+
+    const [[applied]] = vi.mocked(reclaimer.batchReclaim).mock.calls[0]
+    expect(applied).toEqual(detection)
+    expect(applied.account.payer).toBeInstanceOf(PublicKey)
+    expect(applied.account.payer?.toBase58()).toBe(
+      detection.account.payer?.toBase58(),
+    )
+    expect(applied.account.createdAt).toBeInstanceOf(Date)
+  })
+
+  it.each<[string, AccountSnapshot, string]>([
+    [
+      'the account was closed',
+      { info: null, slot: SLOT + 10 },
+      'account was closed',
+    ],
+    [
+      'its lamports changed',
+      { info: tokenAccount(0n, RENT + 1), slot: SLOT + 10 },
+      `lamports ${RENT} -> ${RENT + 1}`,
+    ],
+    [
+      'tokens arrived',
+      { info: tokenAccount(5n), slot: SLOT + 10 },
+      'token amount 0 -> 5',
+    ],
+    [
+      'the RPC is behind the plan',
+      { info: tokenAccount(), slot: SLOT - 1 },
+      `RPC is behind the plan (slot ${SLOT - 1} < ${SLOT})`,
+    ],
+  ])('refuses an account once %s', async (_, snapshot, drift) => {
+    setSnapshot(snapshot)
+
+    const [result] = await planner.applyPlan(file)
+
+    expect(result).toMatchObject({
+      success: false,
+      error: `State drifted since plan: ${drift}`,
+    })
+    expect(result.accountPubkey.toBase58()).toBe(pubkey.toBase58())
+    expect(reclaimer.batchReclaim).not.toHaveBeenCalled()
+    expect(getPlan(file.id)?.status).toBe('applied')
+    expect(getPlanItems(file.id)).toMatchObject([
+      { outcome: 'drifted', error: drift },
+    ])
+  })
+})
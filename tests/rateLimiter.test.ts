@@ -0,0 +1,163 @@
+import { createServer, Server } from 'http'
+import type { AddressInfo } from 'net'
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+} from 'vitest'
+import { resetConfig, setConfig } from '../src/config.js'
+import { RpcRateLimiter } from '../src/services/rateLimiter.js'
+import { sleep } from '../src/utils/helpers.js'
+import { setLogLevel } from '../src/utils/logger.js'
+
+describe('RpcRateLimiter', () => {
+  let server: Server
+  let url: string
+  // Headers of the 429s to answer with before succeeding; null for no Retry-After
+  let throttles: (string | null)[]
+  let requestTimes: number[]
+
+  beforeAll(async () => {
+    setLogLevel('silent')
+
+    server = createServer((req, res) => {
+      req.resume()
+      req.on('end', () => {
+        requestTimes.push(Date.now())
+        if (throttles.length > 0) {
+          const retryAfter = throttles.shift()!
+          res.statusCode = 429
+          if (retryAfter !== null) res.setHeader('Retry-After', retryAfter)
+          res.end('Too Many Requests')
+          return
+        }
+        res.setHeader('Content-Type', 'application/json')
+        res.end(JSON.stringify({ jsonrpc: '2.0', id: 1, result: 42 }))
+      })
+    })
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve))
+  })
+
+  beforeEach(() => {
+    throttles = []
+    requestTimes = []
+  })
+
+  afterEach(() => {
+    resetConfig()
+  })
+
+  function limiter(rpcRateLimit = 0, rpcRateLimits = {}): RpcRateLimiter {
+    setConfig({ rpcRateLimit, rpcRateLimits })
+    return new RpcRateLimiter(url)
+  }
+
+  function call(rpc: RpcRateLimiter, method = 'getBalance') {
+    return rpc.fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method, params: [] }),
+    })
+  }
+
+  it('waits the Retry-After seconds before retrying a 429', async () => {
+    const rpc = limiter()
+    throttles = ['0.3']
+
+    const response = await call(rpc)
+
+    expect(response.status).toBe(200)
+    expect(rpc.rateLimited).toBe(1)
+    expect(requestTimes).toHaveLength(2)
+    expect(requestTimes[1] - requestTimes[0]).toBeGreaterThanOrEqual(290)
+  })
+
+  it('accepts a Retry-After HTTP date', async () => {
+    const rpc = limiter()
+    throttles = [new Date(Date.now() - 1000).toUTCString()]
+
+    const response = await call(rpc)
+
+    expect(response.status).toBe(200)
+    expect(requestTimes[1] - requestTimes[0]).toBeLessThan(250)
+  })
+
+  it('backs off without a Retry-After header', async () => {
+    const rpc = limiter()
+    throttles = [null]
+
+    const response = await call(rpc)
+
+    expect(response.status).toBe(200)
+    expect(requestTimes[1] - requestTimes[0]).toBeGreaterThanOrEqual(490)
+  })
+
+  it('passes on a 429 whose Retry-After is too long to wait out', async () => {
+    const rpc = limiter()
+    throttles = ['60']
+
+    const response = await call(rpc)
+
+    expect(response.status).toBe(429)
+    expect(rpc.rateLimited).toBe(1)
+    expect(requestTimes).toHaveLength(1)
+  })
+
+  it('passes on a 429 after three retries', async () => {
+    const rpc = limiter()
+    throttles = ['0', '0', '0', '0', '0']
+
+    const response = await call(rpc)
+
+    expect(response.status).toBe(429)
+    expect(rpc.rateLimited).toBe(4)
+    expect(requestTimes).toHaveLength(4)
+  })
+
+  it('holds the whole method class for the Retry-After', async () => {
+    const rpc = limiter(100)
+    throttles = ['0.3']
+
+    const throttled = call(rpc, 'getTransaction')
+    await sleep(50)
+    const sameClassAt = Date.now()
+    const sameClass = call(rpc, 'getSignaturesForAddress')
+    await call(rpc, 'getBalance')
+    const otherClassMs = Date.now() - sameClassAt
+    await Promise.all([throttled, sameClass])
+
+    const [first, ...rest] = requestTimes
+    expect(otherClassMs).toBeLessThan(200)
+    expect(rest.filter((t) => t - first >= 290)).toHaveLength(2)
+  })
+
+  it('spaces requests to the configured rate per method class', async () => {
+    const rpc = limiter(2, { scan: 0 })
+
+    const start = Date.now()
+    await Promise.all([call(rpc), call(rpc), call(rpc)])
+    const throttled = Date.now() - start
+
+    requestTimes = []
+    await Promise.all([
+      call(rpc, 'getProgramAccounts'),
+      call(rpc, 'getProgramAccounts'),
+      call(rpc, 'getProgramAccounts'),
+    ])
+
+    // Two tokens up front, the third refills after half a second
+    expect(throttled).toBeGreaterThanOrEqual(490)
+    expect(Math.max(...requestTimes) - Math.min(...requestTimes)).toBeLessThan(
+      250,
+    )
+  })
+})
@@ -0,0 +1,164 @@
+import { Keypair, PublicKey, type SignatureStatus } from '@solana/web3.js'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest'
+import { resetConfig, setConfig } from '../src/config.js'
+import { clusterGuard } from '../src/core/cluster.js'
+import { reclaimer } from '../src/core/reclaimer.js'
+import { addTrackedAccount, getTrackedAccount } from '../src/db/accounts.js'
+import { closeDatabase, getDatabase, initDatabase } from '../src/db/index.js'
+import {
+  addPendingJournalEntries,
+  getPendingJournalEntries,
+} from '../src/db/journal.js'
+import {
+  getBlockHeight,
+  getCurrentNonce,
+  getSignatureStatuses,
+} from '../src/services/solana.js'
+import { setLogLevel } from '../src/utils/logger.js'
+
+vi.mock('../src/services/solana.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/services/solana.js')>()),
+  getBlockHeight: vi.fn(),
+  getCurrentNonce: vi.fn(),
+  getSignatureStatuses: vi.fn(),
+}))
+
+const RENT = 2_039_280
+const NONCE = Keypair.generate().publicKey.toBase58()
+
+const landed: SignatureStatus = {
+  slot: 1234,
+  confirmations: null,
+  err: null,
+  confirmationStatus: 'finalized',
+}
+
+describe('RentReclaimer.recoverPendingReclaims', () => {
+  let dir: string
+
+  beforeAll(() => {
+    setLogLevel('silent')
+  })
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'reclaimer-'))
+    setConfig({ dbPath: path.join(dir, 'accounts.db') })
+    initDatabase()
+    vi.spyOn(clusterGuard, 'verify').mockResolvedValue(
+      {} as Awaited<ReturnType<typeof clusterGuard.verify>>,
+    )
+    vi.mocked(getBlockHeight).mockResolvedValue(1_000)
+    vi.mocked(getCurrentNonce).mockResolvedValue(NONCE)
+    vi.mocked(getSignatureStatuses).mockResolvedValue([null])
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+    closeDatabase()
+    resetConfig()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  /**
+   * Journal a close of a fresh tracked account, as an offline broadcast does
+   */
+  function journalNonceClose(nonceAccount: PublicKey): PublicKey {
+    const pubkey = Keypair.generate().publicKey
+    addTrackedAccount(
+      {
+        pubkey,
+        accountType: 'token_account',
+        rentLamports: RENT,
+        createdAt: new Date(),
+        lastCheckedAt: new Date(),
+        status: 'active',
+      },
+      { source: 'scan' },
+    )
+    addPendingJournalEntries(
+      'signature',
+      NONCE,
+      Number.MAX_SAFE_INTEGER,
+      [{ pubkey, lamports: RENT, reason: 'zero_balance' }],
+      nonceAccount,
+    )
+    return pubkey
+  }
+
+  function journalStatus(): string {
+    const row = getDatabase()
+      .prepare('SELECT status FROM reclaim_journal')
+      .get() as { status: string }
+    return row.status
+  }
+
+  it('journals the nonce account of a durable nonce close', () => {
+    const nonceAccount = Keypair.generate().publicKey
+    journalNonceClose(nonceAccount)
+
+    const [entry] = getPendingJournalEntries()
+
+    expect(entry.blockhash).toBe(NONCE)
+    expect(entry.nonceAccount?.toBase58()).toBe(nonceAccount.toBase58())
+  })
+
+  it('expires a nonce close that never landed once the nonce advances', async () => {
+    const nonceAccount = Keypair.generate().publicKey
+    journalNonceClose(nonceAccount)
+    vi.mocked(getCurrentNonce).mockResolvedValue(
+      Keypair.generate().publicKey.toBase58(),
+    )
+
+    const counts = await reclaimer.recoverPendingReclaims()
+
+    expect(counts).toMatchObject({ expired: 1, pending: 0 })
+    expect(journalStatus()).toBe('expired')
+    expect(getCurrentNonce).toHaveBeenCalledWith(nonceAccount)
+  })
+
+  it('keeps a nonce close pending while the nonce is unchanged', async () => {
+    journalNonceClose(Keypair.generate().publicKey)
+
+    const counts = await reclaimer.recoverPendingReclaims()
+
+    expect(counts).toMatchObject({ expired: 0, pending: 1 })
+    expect(journalStatus()).toBe('pending')
+  })
+
+  it('confirms a nonce close that landed', async () => {
+    const pubkey = journalNonceClose(Keypair.generate().publicKey)
+    vi.mocked(getCurrentNonce).mockResolvedValue(
+      Keypair.generate().publicKey.toBase58(),
+    )
+    vi.mocked(getSignatureStatuses).mockResolvedValue([landed])
+
+    const counts = await reclaimer.recoverPendingReclaims()
+
+    expect(counts).toMatchObject({ confirmed: 1, expired: 0 })
+    expect(journalStatus()).toBe('confirmed')
+    expect(getTrackedAccount(pubkey)?.status).toBe('reclaimed')
+  })
+
+  it('still expires blockhash closes by block height', async () => {
+    const pubkey = Keypair.generate().publicKey
+    addPendingJournalEntries('signature', 'blockhash', 999, [
+      { pubkey, lamports: RENT, reason: 'zero_balance' },
+    ])
+
+    const counts = await reclaimer.recoverPendingReclaims()
+
+    expect(counts).toMatchObject({ expired: 1 })
+    expect(getCurrentNonce).not.toHaveBeenCalled()
+  })
+})
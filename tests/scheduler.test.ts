@@ -0,0 +1,114 @@
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest'
+import { resetConfig, setConfig } from '../src/config.js'
+import { JobScheduler } from '../src/core/scheduler.js'
+import { closeDatabase, initDatabase } from '../src/db/index.js'
+import { getJob, registerJob } from '../src/db/jobs.js'
+import { setLogLevel } from '../src/utils/logger.js'
+
+// Wednesday 2026-01-07 10:30 local time
+const NOW = new Date(2026, 0, 7, 10, 30)
+
+describe('JobScheduler', () => {
+  let dir: string
+  let scheduler: JobScheduler
+
+  beforeAll(() => {
+    setLogLevel('silent')
+  })
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(NOW)
+    dir = mkdtempSync(path.join(tmpdir(), 'scheduler-'))
+    setConfig({ dbPath: path.join(dir, 'accounts.db') })
+    initDatabase()
+    scheduler = new JobScheduler()
+  })
+
+  afterEach(async () => {
+    await scheduler.stop()
+    closeDatabase()
+    resetConfig()
+    rmSync(dir, { recursive: true, force: true })
+    vi.useRealTimers()
+  })
+
+  it('stores the next run of a new job', () => {
+    scheduler.add('scan', '0 * * * *', async () => 'ok')
+
+    expect(getJob('scan')?.next_run_at).toBe(
+      new Date(2026, 0, 7, 11, 0).toISOString(),
+    )
+  })
+
+  it('keeps a stored next run across a restart', () => {
+    const missed = new Date(2026, 0, 7, 9, 0)
+    registerJob('scan', '0 * * * *', missed)
+
+    scheduler.add('scan', '0 * * * *', async () => 'ok')
+
+    expect(getJob('scan')?.next_run_at).toBe(missed.toISOString())
+  })
+
+  it('reschedules a job whose schedule changed', () => {
+    registerJob('scan', '0 * * * *', new Date(2026, 0, 7, 9, 0))
+
+    scheduler.add('scan', '0 3 * * *', async () => 'ok')
+
+    expect(getJob('scan')?.next_run_at).toBe(
+      new Date(2026, 0, 8, 3, 0).toISOString(),
+    )
+  })
+
+  it('runs a missed job once and records the run', async () => {
+    registerJob('scan', '0 * * * *', new Date(2026, 0, 7, 9, 0))
+    const run = vi.fn(async () => 'scanned 3 accounts')
+    scheduler.add('scan', '0 * * * *', run)
+
+    scheduler.start()
+    await vi.waitFor(() => expect(getJob('scan')?.run_count).toBe(1))
+
+    const job = getJob('scan')!
+    expect(run).toHaveBeenCalledTimes(1)
+    expect(job.last_status).toBe('success')
+    expect(job.last_result).toBe('scanned 3 accounts')
+    expect(job.next_run_at).toBe(new Date(2026, 0, 7, 11, 0).toISOString())
+  })
+
+  it('records a failed run and still schedules the next one', async () => {
+    registerJob('check', '*/30 * * * *', new Date(2026, 0, 7, 10, 0))
+    scheduler.add('check', '*/30 * * * *', async () => {
+      throw new Error('RPC unavailable')
+    })
+
+    scheduler.start()
+    await vi.waitFor(() => expect(getJob('check')?.run_count).toBe(1))
+
+    const job = getJob('check')!
+    expect(job.last_status).toBe('failed')
+    expect(job.last_result).toBe('RPC unavailable')
+    expect(job.next_run_at).toBe(new Date(2026, 0, 7, 11, 0).toISOString())
+  })
+
+  it('leaves a job that is not yet due alone', async () => {
+    const run = vi.fn(async () => 'ok')
+    scheduler.add('reclaim', '0 3 * * *', run)
+
+    scheduler.start()
+    await scheduler.stop()
+
+    expect(run).not.toHaveBeenCalled()
+    expect(getJob('reclaim')?.run_count).toBe(0)
+  })
+})
@@ -0,0 +1,95 @@
+import { Keypair, PublicKey, SystemProgram, Transaction } from '@solana/web3.js'
+import bs58 from 'bs58'
+import { createServer, Server } from 'http'
+import type { AddressInfo } from 'net'
+import { afterEach, beforeAll, describe, expect, it } from 'vitest'
+import { createSigningApp, startSigningServer } from '../src/server/signer.js'
+import { RemoteSigner } from '../src/services/signer.js'
+import { setLogLevel } from '../src/utils/logger.js'
+
+const TOKEN = 'test-token'
+
+let server: Server | undefined
+
+/**
+ * Listen on an ephemeral loopback port and return the base URL
+ */
+async function listen(handler: Parameters<typeof createServer>[1]) {
+  server = createServer(handler)
+  await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve))
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+}
+
+function transferFrom(payer: PublicKey): Transaction {
+  const transaction = new Transaction().add(
+    SystemProgram.transfer({
+      fromPubkey: payer,
+      toPubkey: Keypair.generate().publicKey,
+      lamports: 1,
+    }),
+  )
+  transaction.feePayer = payer
+  transaction.recentBlockhash = Keypair.generate().publicKey.toBase58()
+  return transaction
+}
+
+beforeAll(() => {
+  setLogLevel('silent')
+})
+
+afterEach(async () => {
+  if (server) {
+    await new Promise((resolve) => server!.close(resolve))
+    server = undefined
+  }
+})
+
+describe('RemoteSigner', () => {
+  it('signs through the stand-in signing service', async () => {
+    const keypair = Keypair.generate()
+    const url = await listen(createSigningApp(keypair, TOKEN))
+
+    const signer = await RemoteSigner.connect(url, TOKEN)
+    expect(signer.publicKey.equals(keypair.publicKey)).toBe(true)
+
+    const transaction = transferFrom(signer.publicKey)
+    await signer.signTransaction(transaction)
+    expect(transaction.verifySignatures()).toBe(true)
+  })
+
+  it.each([
+    ['a missing token', undefined],
+    ['a wrong token', 'wrong-token'],
+  ])('is refused with %s', async (_, token) => {
+    const url = await listen(createSigningApp(Keypair.generate(), TOKEN))
+
+    await expect(RemoteSigner.connect(url, token)).rejects.toThrow(/HTTP 401/)
+  })
+
+  it('rejects a signature that fails local verification', async () => {
+    const keypair = Keypair.generate()
+    const url = await listen((req, res) => {
+      res.setHeader('Content-Type', 'application/json')
+      res.end(
+        JSON.stringify(
+          req.url === '/publicKey'
+            ? { publicKey: keypair.publicKey.toBase58() }
+            : { signature: bs58.encode(Buffer.alloc(64, 7)) },
+        ),
+      )
+    })
+
+    const signer = await RemoteSigner.connect(url)
+    await expect(
+      signer.signTransaction(transferFrom(signer.publicKey)),
+    ).rejects.toThrow(/invalid signature/)
+  })
+})
+
+describe('startSigningServer', () => {
+  it('refuses a non-loopback address without a token', () => {
+    expect(() =>
+      startSigningServer(Keypair.generate(), 0, undefined, '0.0.0.0'),
+    ).toThrow(/without a token/)
+  })
+})
@@ -0,0 +1,139 @@
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from '@solana/spl-token'
+import { Keypair, PACKET_DATA_SIZE, PublicKey } from '@solana/web3.js'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  CloseTarget,
+  DurableNonce,
+  buildCloseTransaction,
+  packCloseTargets,
+} from '../src/services/solana.js'
+
+const destination = Keypair.generate().publicKey
+const authority = Keypair.generate().publicKey
+
+function targets(count: number, programOf = (_: number) => TOKEN_PROGRAM_ID) {
+  return Array.from({ length: count }, (_, i) => ({
+    pubkey: Keypair.generate().publicKey,
+    programId: programOf(i),
+    index: i,
+  }))
+}
+
+/**
+ * Serialized size of the transaction closing a group, signatures included
+ */
+function sizeOf(group: CloseTarget[], nonce?: DurableNonce): number {
+  const transaction = buildCloseTransaction(
+    group,
+    destination,
+    authority,
+    { unitLimit: 200_000, microLamports: 1_000 },
+    nonce,
+  )
+  transaction.recentBlockhash ??= PublicKey.default.toBase58()
+  // serialize() refuses oversize transactions, so measure the message
+  const message = transaction.compileMessage()
+  return (
+    1 + message.header.numRequiredSignatures * 64 + message.serialize().length
+  )
+}
+
+/**
+ * Check every group fits and none could have taken the next target too
+ */
+function expectTightlyPacked<T extends CloseTarget>(
+  groups: T[][],
+  nonce?: DurableNonce,
+): void {
+  groups.forEach((group, i) => {
+    expect(sizeOf(group, nonce)).toBeLessThanOrEqual(PACKET_DATA_SIZE)
+    if (i < groups.length - 1) {
+      expect(sizeOf([...group, groups[i + 1][0]], nonce)).toBeGreaterThan(
+        PACKET_DATA_SIZE,
+      )
+    }
+  })
+}
+
+describe('packCloseTargets', () => {
+  afterEach(() => {
+    vi.doUnmock('@solana/web3.js')
+    vi.resetModules()
+  })
+
+  it('keeps a small batch in one transaction', () => {
+    const batch = targets(3)
+
+    expect(packCloseTargets(batch, destination, authority)).toEqual([batch])
+  })
+
+  it('returns no groups for no targets', () => {
+    expect(packCloseTargets([], destination, authority)).toEqual([])
+  })
+
+  it('splits at the packet size limit, keeping order', () => {
+    const batch = targets(60)
+
+    const groups = packCloseTargets(batch, destination, authority)
+
+    expect(groups.length).toBeGreaterThan(1)
+    expect(groups.flat()).toEqual(batch)
+    expectTightlyPacked(groups)
+  })
+
+  it('fits fewer closes when a nonce advance comes first', () => {
+    const batch = targets(60)
+    const nonce: DurableNonce = {
+      nonceAccount: Keypair.generate().publicKey,
+      authority,
+      nonce: Keypair.generate().publicKey.toBase58(),
+    }
+
+    const plain = packCloseTargets(batch, destination, authority)
+    const groups = packCloseTargets(batch, destination, authority, nonce)
+
+    expect(groups[0].length).toBeLessThan(plain[0].length)
+    expect(groups.flat()).toEqual(batch)
+    expectTightlyPacked(groups, nonce)
+  })
+
+  it('closes each target with its own program when programs are mixed', () => {
+    const batch = targets(60, (i) =>
+      i % 2 === 0 ? TOKEN_PROGRAM_ID : TOKEN_2022_PROGRAM_ID,
+    )
+
+    const groups = packCloseTargets(batch, destination, authority)
+
+    expect(groups.flat()).toEqual(batch)
+    expectTightlyPacked(groups)
+    for (const group of groups) {
+      const closes = buildCloseTransaction(
+        group,
+        destination,
+        authority,
+      ).instructions
+      expect(closes.map((ix) => ix.programId.toBase58())).toEqual(
+        group.map((t) => t.programId.toBase58()),
+      )
+      expect(closes.map((ix) => ix.keys[0].pubkey.toBase58())).toEqual(
+        group.map((t) => t.pubkey.toBase58()),
+      )
+    }
+  })
+
+  it('gives a target too large for any packet a transaction of its own', async () => {
+    // Shrink the packet so even one close overflows it
+    vi.resetModules()
+    vi.doMock('@solana/web3.js', async (importOriginal) => ({
+      ...(await importOriginal<typeof import('@solana/web3.js')>()),
+      PACKET_DATA_SIZE: 200,
+    }))
+    const { packCloseTargets: pack } = await import('../src/services/solana.js')
+    const batch = targets(3)
+
+    expect(sizeOf(batch.slice(0, 1))).toBeGreaterThan(200)
+    expect(pack(batch, destination, authority)).toEqual(
+      batch.map((target) => [target]),
+    )
+  })
+})
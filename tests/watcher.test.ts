@@ -0,0 +1,117 @@
+import { Keypair, PublicKey, type AccountInfo } from '@solana/web3.js'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import path from 'path'
+import { afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest'
+import { resetConfig, setConfig } from '../src/config.js'
+import type { AccountStatus } from '../src/core/types.js'
+import { AccountWatcher } from '../src/core/watcher.js'
+import { addTrackedAccount, getTrackedAccount } from '../src/db/accounts.js'
+import { getAccountEvents } from '../src/db/events.js'
+import { closeDatabase, initDatabase } from '../src/db/index.js'
+import { addPendingJournalEntries } from '../src/db/journal.js'
+import { setLogLevel } from '../src/utils/logger.js'
+
+const RENT = 2_039_280
+const SLOT = 1234
+
+const closed: AccountInfo<Buffer> = {
+  lamports: 0,
+  data: Buffer.alloc(0),
+  owner: PublicKey.default,
+  executable: false,
+}
+
+describe('AccountWatcher', () => {
+  let dir: string
+
+  beforeAll(() => {
+    setLogLevel('silent')
+  })
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'watcher-'))
+    setConfig({ dbPath: path.join(dir, 'accounts.db') })
+    initDatabase()
+  })
+
+  afterEach(() => {
+    closeDatabase()
+    resetConfig()
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  /**
+   * Track an account and feed the watcher a notification that it closed
+   */
+  function closeOnChain(status: AccountStatus, pending = false) {
+    const pubkey = Keypair.generate().publicKey
+    addTrackedAccount(
+      {
+        pubkey,
+        accountType: 'token_account',
+        rentLamports: RENT,
+        createdAt: new Date(),
+        lastCheckedAt: new Date(),
+        status,
+      },
+      { source: 'scan' },
+    )
+    if (pending) {
+      addPendingJournalEntries('signature', 'blockhash', 100, [
+        { pubkey, lamports: RENT, reason: 'zero_balance' },
+      ])
+    }
+
+    const watcher = new AccountWatcher() as unknown as {
+      applyChange(
+        tracked: unknown,
+        info: AccountInfo<Buffer>,
+        slot: number,
+      ): void
+    }
+    watcher.applyChange(getTrackedAccount(pubkey), closed, SLOT)
+
+    return {
+      account: getTrackedAccount(pubkey)!,
+      events: getAccountEvents(pubkey).filter((e) => e.source === 'watch'),
+    }
+  }
+
+  it('keeps a closed protected account protected', () => {
+    const { account, events } = closeOnChain('protected')
+
+    expect(account.status).toBe('protected')
+    expect(account.rentLamports).toBe(0)
+    expect(events).toMatchObject([
+      {
+        kind: 'lamports',
+        newValue: '0',
+        slot: SLOT,
+        detail: 'closed on chain while protected',
+      },
+    ])
+  })
+
+  it('marks an account closed by someone else as closed externally', () => {
+    const { account, events } = closeOnChain('reclaimable')
+
+    expect(account.status).toBe('reclaimed')
+    expect(events).toMatchObject([
+      {
+        kind: 'status',
+        oldValue: 'reclaimable',
+        newValue: 'reclaimed',
+        detail: 'closed externally',
+      },
+      { kind: 'lamports', newValue: '0', detail: 'closed externally' },
+    ])
+  })
+
+  it('attributes a close to a pending reclaim of the account', () => {
+    const { account, events } = closeOnChain('reclaimable', true)
+
+    expect(account.status).toBe('reclaimed')
+    expect(events[0].detail).toBe('closed by a pending reclaim')
+  })
+})